@@ -0,0 +1,123 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { createHash } from 'node:crypto'
+import type { Plugin, ResolvedConfig } from 'vite'
+import type { AssetManifestFile } from '../src/config/assetConfig'
+
+/**
+ * Generates sw.js at build time. The app shell (Vite's output plus the asset manifest)
+ * is cached per build; the scene assets listed in public/assets/asset-manifest.json are
+ * cached per manifest `version`, so a release that does not touch the artwork does not
+ * download it again.
+ */
+
+const MANIFEST_PATH = 'assets/asset-manifest.json' // relative to the public dir
+const CACHE_PREFIX = 'little-world-'
+
+interface ServiceWorkerOptions {
+  fileName?: string
+}
+
+interface PrecacheLists {
+  shellCache: string
+  assetCache: string
+  shellUrls: string[]
+  assetUrls: string[]
+}
+
+// The installed worker waits until a parent applies it from ParentMode
+const renderServiceWorker = ({ shellCache, assetCache, shellUrls, assetUrls }: PrecacheLists) => `// Generated by scripts/serviceWorkerPlugin.ts; do not edit
+const SHELL_CACHE = ${JSON.stringify(shellCache)}
+const ASSET_CACHE = ${JSON.stringify(assetCache)}
+const SHELL_URLS = ${JSON.stringify(shellUrls, null, 2)}
+const ASSET_URLS = ${JSON.stringify(assetUrls, null, 2)}
+const INDEX_URL = SHELL_URLS[0]
+
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)),
+    // Assets kept from the previous build under the same manifest version are not fetched again
+    caches.open(ASSET_CACHE).then(cache => Promise.all(ASSET_URLS.map(url =>
+      cache.match(url).then(hit => hit || cache.add(url))
+    )))
+  ]))
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(${JSON.stringify(CACHE_PREFIX)}) && key !== SHELL_CACHE && key !== ASSET_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting()
+})
+
+// Cache first: the cached shell is the version this worker installed, even on a flaky network
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(INDEX_URL).then(hit => hit || fetch(request)))
+    return
+  }
+  event.respondWith(caches.match(request).then(hit => hit || fetch(request)))
+})
+`
+
+const hash = (values: string[]) => createHash('sha256').update(values.join('\n')).digest('hex').slice(0, 8)
+
+export function serviceWorkerPlugin({ fileName = 'sw.js' }: ServiceWorkerOptions = {}): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'little-world-service-worker',
+    apply: 'build',
+
+    configResolved(resolved) {
+      config = resolved
+    },
+
+    generateBundle(_options, bundle) {
+      const url = (file: string) => `${config.base}${file}`
+      const publicFile = (src: string) => path.join(config.publicDir, src.replace(/^\//, ''))
+      const manifest = JSON.parse(fs.readFileSync(publicFile(MANIFEST_PATH), 'utf8')) as AssetManifestFile
+
+      // index.html first: the worker answers every navigation with it
+      const outputFiles = Object.keys(bundle).filter(file => !file.endsWith('.map') && file !== 'index.html')
+      const publicRootFiles = fs.readdirSync(config.publicDir, { withFileTypes: true })
+        .filter(entry => entry.isFile() && !entry.name.endsWith('.md'))
+        .map(entry => entry.name)
+      const shellUrls = [url('index.html'), url(''), ...outputFiles.map(url), ...publicRootFiles.map(url), url(MANIFEST_PATH)]
+
+      const assets = [
+        ...Object.values(manifest.categories).flatMap(category => category.assets),
+        ...(manifest.fallbackAssets?.assets ?? [])
+      ].filter(asset => asset.type !== 'emoji')
+      const assetUrls: string[] = []
+      assets.forEach(asset => {
+        if (fs.existsSync(publicFile(asset.src))) {
+          assetUrls.push(url(asset.src.replace(/^\//, '')))
+        } else {
+          this.warn(`Asset ${asset.id} is not precached: ${asset.src} does not exist`)
+        }
+      })
+
+      this.emitFile({
+        type: 'asset',
+        fileName,
+        source: renderServiceWorker({
+          shellCache: `${CACHE_PREFIX}shell-${hash(shellUrls)}`,
+          assetCache: `${CACHE_PREFIX}assets-${manifest.version}`,
+          shellUrls,
+          assetUrls: Array.from(new Set(assetUrls))
+        })
+      })
+    }
+  }
+}
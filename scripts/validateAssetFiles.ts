@@ -0,0 +1,189 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { AssetManifestFile, AssetMetadata, AssetValidationRecord } from '../src/config/assetConfig'
+import {
+  AssetFileReport,
+  findOrphanedFiles,
+  missingAssetFile,
+  validateAssetContent
+} from '../src/utils/assetValidator'
+
+/**
+ * Validates the files behind public/assets/asset-manifest.json: every SVG and lottie the
+ * manifest lists is opened and checked against ASSET_VALIDATION_RULES, and files nobody
+ * refers to are reported as orphaned. Each asset's `validation` entry and measured `fileSize`
+ * are written back, along with the manifest's `totalFileSize`.
+ *
+ * Usage:
+ *   pnpm validate:assets:files
+ *   pnpm validate:assets:files --output=asset-report.json   (machine-readable report)
+ *   pnpm validate:assets:files --json                       (report on stdout)
+ *   pnpm validate:assets:files --no-write                   (leave the manifest as it is)
+ *
+ * Exits with 1 when an asset is invalid or missing.
+ */
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const PUBLIC_DIR = path.join(ROOT, 'public')
+const ASSETS_DIR = path.join(PUBLIC_DIR, 'assets')
+const MANIFEST_PATH = path.join(ASSETS_DIR, 'asset-manifest.json')
+
+interface Options {
+  output?: string
+  json: boolean
+  write: boolean
+}
+
+interface AssetFilesReport {
+  generatedAt: string
+  manifest: string
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    missing: number
+    orphaned: number
+  }
+  assets: Omit<AssetFileReport, 'metadata'>[]
+  orphanedFiles: string[]
+}
+
+type ManifestJson = AssetManifestFile & {
+  metadata?: { totalFileSize?: number; validationStatus?: string; lastValidated?: string | null }
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { json: false, write: true }
+  args.forEach(arg => {
+    if (arg.startsWith('--output=')) options.output = arg.slice('--output='.length)
+    if (arg === '--json') options.json = true
+    if (arg === '--no-write') options.write = false
+  })
+  return options
+}
+
+// Public paths (/assets/...) of every file under public/assets except the manifest and docs
+function listAssetFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return listAssetFiles(fullPath)
+    if (fullPath === MANIFEST_PATH || entry.name.endsWith('.md')) return []
+    return ['/' + path.relative(PUBLIC_DIR, fullPath).split(path.sep).join('/')]
+  })
+}
+
+function validateFile(asset: AssetMetadata): AssetFileReport {
+  const filePath = path.join(PUBLIC_DIR, asset.src.replace(/^\//, ''))
+  if (!fs.existsSync(filePath)) return missingAssetFile(asset)
+
+  const buffer = fs.readFileSync(filePath)
+  return validateAssetContent(asset, buffer.toString('utf8'), buffer.length)
+}
+
+// Matches the manifest's own layout: lists of values and number-only objects stay on one line
+function formatManifest(value: unknown, indent = ''): string {
+  const inner = indent + '  '
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      return `[${value.map(item => JSON.stringify(item)).join(', ')}]`
+    }
+    return `[\n${value.map(item => inner + formatManifest(item, inner)).join(',\n')}\n${indent}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+    if (entries.length === 0) return '{}'
+    if (entries.every(([, item]) => typeof item === 'number')) {
+      return `{ ${entries.map(([key, item]) => `${JSON.stringify(key)}: ${item}`).join(', ')} }`
+    }
+    return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${formatManifest(item, inner)}`).join(',\n')}\n${indent}}`
+  }
+  return JSON.stringify(value)
+}
+
+function writeBack(manifest: ManifestJson, reports: AssetFileReport[], checkedAt: string) {
+  const byId = new Map(reports.map(report => [report.assetId, report]))
+  const assets = [
+    ...Object.values(manifest.categories).flatMap(category => category.assets),
+    ...(manifest.fallbackAssets?.assets ?? [])
+  ]
+  assets.forEach(asset => {
+    const report = byId.get(asset.id)
+    if (!report) return
+    const validation: AssetValidationRecord = { status: report.status, checkedAt, errors: report.validation.errors }
+    asset.validation = validation
+    // The asset manager budgets its cache on these sizes, so they follow the files
+    if (report.file) asset.fileSize = report.file.byteSize
+  })
+
+  if (manifest.metadata) {
+    manifest.metadata.totalFileSize = assets.reduce((total, asset) => total + (asset.fileSize ?? 0), 0)
+    manifest.metadata.validationStatus = reports.every(report => report.status === 'valid') ? 'valid' : 'invalid'
+    manifest.metadata.lastValidated = checkedAt
+  }
+  fs.writeFileSync(MANIFEST_PATH, formatManifest(manifest))
+}
+
+function printSummary(report: AssetFilesReport) {
+  report.assets.forEach(asset => {
+    const icon = asset.status === 'valid' ? '✅' : asset.status === 'missing' ? '❓' : '❌'
+    console.log(`${icon} ${asset.assetId} ${asset.src}`)
+    asset.validation.errors.forEach(error => console.log(`   • ${error}`))
+    asset.validation.warnings.forEach(warning => console.log(`   ⚠️  ${warning}`))
+  })
+  report.orphanedFiles.forEach(file => console.log(`🗑️  ${file} is not listed in the manifest`))
+
+  const { summary } = report
+  console.log('\n📊 Asset Files')
+  console.log('═'.repeat(50))
+  console.log(`✅ Valid: ${summary.valid} / ${summary.total}`)
+  console.log(`❌ Invalid: ${summary.invalid}`)
+  console.log(`❓ Missing: ${summary.missing}`)
+  console.log(`🗑️  Orphaned: ${summary.orphaned}`)
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8')) as ManifestJson
+  const checkedAt = new Date().toISOString()
+
+  const assets = [
+    ...Object.values(manifest.categories).flatMap(category => category.assets),
+    ...(manifest.fallbackAssets?.assets ?? [])
+  ]
+  const fileAssets = assets.filter(asset => asset.type !== 'emoji')
+  const reports = fileAssets.map(validateFile)
+  const orphanedFiles = findOrphanedFiles(fileAssets, listAssetFiles(ASSETS_DIR))
+
+  const report: AssetFilesReport = {
+    generatedAt: checkedAt,
+    manifest: path.relative(ROOT, MANIFEST_PATH),
+    summary: {
+      total: reports.length,
+      valid: reports.filter(r => r.status === 'valid').length,
+      invalid: reports.filter(r => r.status === 'invalid').length,
+      missing: reports.filter(r => r.status === 'missing').length,
+      orphaned: orphanedFiles.length
+    },
+    // The manifest already holds each asset's metadata
+    assets: reports.map(({ assetId, category, src, status, file, validation, checkedAt }) =>
+      ({ assetId, category, src, status, file, validation, checkedAt })),
+    orphanedFiles
+  }
+
+  if (options.output) {
+    fs.writeFileSync(path.resolve(options.output), JSON.stringify(report, null, 2) + '\n')
+  }
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printSummary(report)
+  }
+  if (options.write) {
+    writeBack(manifest, reports, checkedAt)
+  }
+
+  process.exit(report.summary.invalid + report.summary.missing > 0 ? 1 : 0)
+}
+
+main()
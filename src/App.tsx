@@ -6,29 +6,48 @@ import HomeScene from './components/HomeScene'
 import GardenScene from './components/GardenScene'
 import ParentMode from './components/ParentMode'
 import InitialSetup from './components/InitialSetup'
+import ChildPicker from './components/ChildPicker'
+import AdultGate from './components/AdultGate'
+import SleepingScene from './components/SleepingScene'
+import WindDownPrompt from './components/WindDownPrompt'
+import { usePlayAvailability } from './hooks/usePlayAvailability'
 import AudioManager from './components/AudioManager'
+import TimeManager from './components/TimeManager'
 import TimeManagerBackground from './components/TimeManagerBackground'
 import ThirdStageDemo from './components/ThirdStageDemo'
+import SceneTransition from './components/SceneTransition'
 
 function App() {
   const { 
     childProfile, 
     settings, 
     gameState, 
-    setCurrentScene,
+    profiles,
+    goToScene,
     startSession,
-    endSession 
+    endSession,
+    updateSettings
   } = useAppStore()
 
   // Add state for third stage demo mode
   const [showThirdStageDemo, setShowThirdStageDemo] = useState(false)
+  // With siblings on one device, the child picks who is playing on every launch
+  const [hasPickedChild, setHasPickedChild] = useState(false)
+  const needsChildPicker = profiles.length > 1 && !hasPickedChild
+  const { isAvailable: isPlayAvailable, nextOpening } = usePlayAvailability()
+  // Every way into ParentMode passes the adult gate; leaving ParentMode locks it again
+  const [isParentUnlocked, setIsParentUnlocked] = useState(false)
+
+  useEffect(() => {
+    if (!settings.parentMode) setIsParentUnlocked(false)
+  }, [settings.parentMode])
 
   // Initialize session on app start
   useEffect(() => {
-    if (childProfile.name && !gameState.isPlaying) {
+    if (childProfile.name && !gameState.isPlaying && !needsChildPicker && isPlayAvailable) {
       startSession()
     }
-  }, [childProfile.name])
+  }, [childProfile.name, needsChildPicker, isPlayAvailable])
 
   // Handle app cleanup
   useEffect(() => {
@@ -52,7 +71,23 @@ function App() {
     return <InitialSetup />
   }
 
+  if (needsChildPicker) {
+    return <ChildPicker onPicked={() => setHasPickedChild(true)} />
+  }
+
   // Render parent mode if enabled
+  if (settings.parentMode && !isParentUnlocked) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-100 to-purple-100">
+        <AdultGate
+          title="进入家长模式"
+          onPass={() => setIsParentUnlocked(true)}
+          onCancel={() => updateSettings({ parentMode: false })}
+        />
+      </div>
+    )
+  }
+
   if (settings.parentMode) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-100 to-purple-100">
@@ -61,6 +96,11 @@ function App() {
     )
   }
 
+  // Outside the play schedule, after goodnight or with today's time used up, the world sleeps
+  if (!isPlayAvailable && !gameState.isPlaying) {
+    return <SleepingScene nextOpening={nextOpening} />
+  }
+
   // Render main game based on current scene
   const renderScene = () => {
     switch (gameState.currentScene) {
@@ -78,6 +118,8 @@ function App() {
     <div className="min-h-screen bg-gradient-to-br from-blue-100 to-purple-100 relative overflow-hidden">
       <AudioManager />
       <TimeManagerBackground />
+      <TimeManager />
+      <WindDownPrompt />
       
       {/* Background elements for visual appeal */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
@@ -90,12 +132,13 @@ function App() {
       <div className="relative z-10">
         {renderScene()}
       </div>
+      <SceneTransition />
 
       {/* Scene navigation for testing - will be hidden in production */}
       {process.env.NODE_ENV === 'development' && (
         <div className="fixed bottom-4 left-4 z-50 flex flex-wrap gap-2">
           <button
-            onClick={() => setCurrentScene('town')}
+            onClick={() => goToScene('town')}
             className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
               gameState.currentScene === 'town' 
                 ? 'bg-blue-500 text-white' 
@@ -105,7 +148,7 @@ function App() {
             小镇
           </button>
           <button
-            onClick={() => setCurrentScene('home')}
+            onClick={() => goToScene('home')}
             className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
               gameState.currentScene === 'home' 
                 ? 'bg-blue-500 text-white' 
@@ -115,7 +158,7 @@ function App() {
             家
           </button>
           <button
-            onClick={() => setCurrentScene('garden')}
+            onClick={() => goToScene('garden')}
             className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
               gameState.currentScene === 'garden' 
                 ? 'bg-blue-500 text-white' 
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { Lock, Hand } from 'lucide-react'
+
+interface AdultGateProps {
+  onPass: () => void
+  onCancel: () => void
+  title?: string
+}
+
+const HOLD_DURATION = 3000 // ms the adult has to keep the button pressed
+
+// Sums beyond what a 2-4 year old can do, e.g. 7 + 8
+const createQuestion = () => {
+  const a = 4 + Math.floor(Math.random() * 6)
+  const b = 4 + Math.floor(Math.random() * 6)
+  return { text: `${a} + ${b} = ?`, answer: a + b }
+}
+
+/**
+ * Confirms an adult is present before parent-only actions. Uses the PIN set
+ * during InitialSetup, falling back to a hold-then-arithmetic challenge when
+ * no PIN is set or it has been forgotten.
+ */
+const AdultGate: React.FC<AdultGateProps> = ({ onPass, onCancel, title = '请家长确认' }) => {
+  const { settings } = useAppStore()
+  const [mode, setMode] = useState<'pin' | 'hold' | 'question'>(settings.parentPin ? 'pin' : 'hold')
+  const [input, setInput] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [holdProgress, setHoldProgress] = useState(0)
+  const [question] = useState(createQuestion)
+  const holdTimer = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  const stopHolding = () => {
+    if (holdTimer.current) clearInterval(holdTimer.current)
+    holdTimer.current = null
+  }
+
+  useEffect(() => stopHolding, [])
+
+  const startHolding = () => {
+    stopHolding()
+    const startedAt = Date.now()
+    holdTimer.current = setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / HOLD_DURATION)
+      setHoldProgress(progress)
+      if (progress >= 1) {
+        stopHolding()
+        setMode('question')
+      }
+    }, 50)
+  }
+
+  const cancelHolding = () => {
+    stopHolding()
+    if (mode === 'hold') setHoldProgress(0)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const passed = mode === 'pin'
+      ? input === settings.parentPin
+      : Number(input) === question.answer
+
+    if (passed) {
+      onPass()
+    } else {
+      setError(mode === 'pin' ? 'PIN 不正确' : '答案不正确')
+      setInput('')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
+      <div className="bg-white rounded-3xl p-8 max-w-sm mx-4 w-full text-center shadow-2xl" role="dialog" aria-modal="true" aria-label={title}>
+        <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-8 h-8 text-blue-500" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-800 mb-4">{title}</h3>
+
+        {mode === 'hold' ? (
+          <div className="space-y-4">
+            <p className="text-gray-600 text-sm">请按住下方按钮 3 秒</p>
+            <button
+              onMouseDown={startHolding}
+              onMouseUp={cancelHolding}
+              onMouseLeave={cancelHolding}
+              onTouchStart={startHolding}
+              onTouchEnd={cancelHolding}
+              className="relative w-full overflow-hidden bg-gray-100 text-gray-700 font-medium py-4 px-4 rounded-xl select-none touch-manipulation"
+            >
+              <div
+                className="absolute inset-y-0 left-0 bg-blue-200"
+                style={{ width: `${holdProgress * 100}%` }}
+              />
+              <span className="relative flex items-center justify-center gap-2">
+                <Hand className="w-5 h-5" />
+                按住
+              </span>
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-gray-600 text-sm">
+              {mode === 'pin' ? '请输入家长 PIN' : `请回答：${question.text}`}
+            </p>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoFocus
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value.replace(/\D/g, ''))
+                setError(null)
+              }}
+              maxLength={mode === 'pin' ? 4 : 3}
+              className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl text-center text-2xl tracking-widest focus:border-blue-400 focus:outline-none"
+              aria-label={mode === 'pin' ? '家长 PIN' : '答案'}
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <button
+              type="submit"
+              disabled={!input}
+              className="w-full bg-blue-500 text-white font-medium py-3 px-4 rounded-xl hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              确认
+            </button>
+            {mode === 'pin' && (
+              <button
+                type="button"
+                onClick={() => {
+                  setMode('hold')
+                  setInput('')
+                  setError(null)
+                }}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                忘记 PIN？
+              </button>
+            )}
+          </form>
+        )}
+
+        <button
+          onClick={onCancel}
+          className="mt-4 w-full bg-gray-100 text-gray-700 font-medium py-3 px-4 rounded-xl hover:bg-gray-200 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default AdultGate
@@ -28,6 +28,8 @@ const audioCues: AudioCue[] = [
   // General
   { id: 'general_gentle_exit', text: '今天的小冒险结束啦！我们下次再来玩吧！', type: 'instruction' },
   { id: 'general_time_warning', text: '还有一点点时间就要结束啦，要不要再玩一个小游戏？', type: 'instruction' },
+  { id: 'general_wind_down', text: '天快黑啦，小伙伴们都困了，我们准备说晚安吧！', type: 'instruction' },
+  { id: 'general_goodnight_prompt', text: '时间到啦，和小伙伴们说声晚安吧！', type: 'instruction' },
   { id: 'general_praise', text: '你做得很棒！继续加油！', type: 'encouragement' }
 ]
 
@@ -119,6 +121,12 @@ const AudioManager: React.FC = () => {
       case 'gentle_exit':
         playCue('general_gentle_exit', 'high')
         break
+      case 'wind_down':
+        playCue('general_wind_down', 'high')
+        break
+      case 'goodnight_prompt':
+        playCue('general_goodnight_prompt', 'high')
+        break
       default:
         // Generic praise for other positive interactions
         if (Math.random() > 0.7) { // 30% chance to avoid over-speaking
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { assetManager, ASSET_MANIFEST, type AssetMetadata } from '../config/assetConfig'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
+import { LottiePlayer } from './LottiePlayer'
+import { useSceneConfig } from '../hooks/useAppConfig'
 import { optimizeVariants, shouldEnableAnimations, ANIMATION_TIMING } from '../utils/performance'
 import { ANIMATION_EASING } from '../config/animationConfig'
 
-export type CharacterExpression = 'neutral' | 'happy' | 'excited' | 'sad' | 'surprised'
-export type CharacterAnimation = 'idle' | 'wave' | 'jump'
+export type CharacterExpression = 'neutral' | 'happy' | 'excited' | 'sad' | 'surprised' | 'sleepy'
+export type CharacterAnimation = 'idle' | 'wave' | 'jump' | 'yawn'
 
 export interface CharacterRendererProps {
   characterId: string
@@ -51,15 +54,31 @@ const animationVariants = optimizeVariants({
       reducedMotionDuration: 0.15,
       times: [0, 0.5, 1]
     }
+  },
+  yawn: {
+    scaleY: [1, 1.08, 0.96, 1],
+    rotate: [0, -4, 0],
+    transition: {
+      duration: ANIMATION_TIMING.interaction.slow * 3 / 1000,
+      ease: ANIMATION_EASING.easeInOut,
+      reducedMotionDuration: 0.2
+    }
   }
 })
 
+// Lottie effects played over the character; the framer-motion movement runs either way
+const animationLotties: Partial<Record<CharacterAnimation, string>> = {
+  jump: 'bounce_anim',
+  wave: 'sparkle_anim'
+}
+
 const expressionColors = {
   neutral: 'border-gray-300',
   happy: 'border-green-300',
   excited: 'border-pink-300',
   sad: 'border-blue-300',
-  surprised: 'border-yellow-300'
+  surprised: 'border-yellow-300',
+  sleepy: 'border-indigo-300'
 }
 
 export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
@@ -73,34 +92,33 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
   enableAccessibility = true,
   reducedMotion = false
 }) => {
-  const [characterAsset, setCharacterAsset] = useState<AssetMetadata | null>(null)
   const [currentAsset, setCurrentAsset] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Find character asset configuration
-  useEffect(() => {
-    const asset = Object.values(ASSET_MANIFEST.assets).find(char => char.id === characterId && char.category === 'characters')
-    if (asset) {
-      setCharacterAsset(asset)
-    } else {
-      setError(`Character asset not found: ${characterId}`)
-      setIsLoading(false)
-    }
-  }, [characterId])
+  // Characters are defined in the home scene config; the asset manifest only supplies artwork
+  const { characters } = useSceneConfig('home')
+  const characterConfig = characters.find(char => char.id === characterId)
+  const emojiFallback = characterConfig?.emoji || '😊'
+  useRetainedAssets([characterId])
 
   // Load the appropriate asset based on expression
   useEffect(() => {
-    if (!characterAsset) return
-
     const loadAsset = async () => {
       setIsLoading(true)
       setError(null)
 
+      await assetManager.ready()
+      const characterAsset = assetManager.getAsset(characterId)
+      if (characterAsset?.category !== 'characters') {
+        // Characters added through config alone render with their emoji
+        if (!characterConfig) setError(`Character not found: ${characterId}`)
+        setCurrentAsset(emojiFallback)
+        setIsLoading(false)
+        return
+      }
+
       try {
-        // Use emoji as fallback if SVG loading fails
-        const emojiFallback = getEmojiFallback(characterId, expression)
-        
         // Load the main character asset
         try {
           const svgContent = await assetManager.loadAsset(characterAsset.id)
@@ -112,41 +130,14 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
       } catch (error) {
         console.error('Error loading character asset:', error)
         setError('Failed to load character')
-        setCurrentAsset(getEmojiFallback(characterId, expression))
+        setCurrentAsset(emojiFallback)
       } finally {
         setIsLoading(false)
       }
     }
 
     loadAsset()
-  }, [characterAsset, expression])
-
-  const getEmojiFallback = (id: string, expr: CharacterExpression): string => {
-    const emojiMap: Record<string, Record<CharacterExpression, string>> = {
-      bunny: {
-        neutral: '🐰',
-        happy: '🐰',
-        excited: '🐰',
-        sad: '🐰',
-        surprised: '🐰'
-      },
-      bear: {
-        neutral: '🐻',
-        happy: '🐻',
-        excited: '🐻',
-        sad: '🐻',
-        surprised: '🐻'
-      },
-      parent: {
-        neutral: '👨‍👩‍👧‍👦',
-        happy: '👨‍👩‍👧‍👦',
-        excited: '👨‍👩‍👧‍👦',
-        sad: '👨‍👩‍👧‍👦',
-        surprised: '👨‍👩‍👧‍👦'
-      }
-    }
-    return emojiMap[id]?.[expr] || '😊'
-  }
+  }, [characterConfig, characterId, emojiFallback, expression])
 
   const handleAnimationComplete = () => {
     if (onAnimationComplete) {
@@ -156,6 +147,7 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
 
   const containerSize = sizeMap[size]
   const borderColor = expressionColors[expression]
+  const animationLottie = animationLotties[animation]
 
   if (isLoading) {
     return (
@@ -193,7 +185,7 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
         style={{ width: containerSize.width, height: containerSize.height }}
         onClick={onClick}
         role={enableAccessibility ? 'img' : undefined}
-        aria-label={enableAccessibility ? `${characterAsset?.name} - ${expression}` : undefined}
+        aria-label={enableAccessibility ? `${characterConfig?.name ?? assetManager.getAsset(characterId)?.name} - ${expression}` : undefined}
         whileHover={onClick && shouldEnableAnimations() ? { 
           scale: 1.05,
           transition: { 
@@ -224,6 +216,19 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
             <span className="text-2xl">{currentAsset}</span>
           )}
         </div>
+
+        {animationLottie && (
+          <LottiePlayer
+            key={animation}
+            assetId={animationLottie}
+            loop={false}
+            reducedMotion={reducedMotion}
+            className="absolute -inset-3"
+          />
+        )}
+        {expression === 'excited' && (
+          <LottiePlayer assetId="sparkle_anim" reducedMotion={reducedMotion} className="absolute -inset-4" />
+        )}
         
         {/* Expression indicator */}
         {expression !== 'neutral' && (
@@ -241,6 +246,7 @@ export const CharacterRenderer: React.FC<CharacterRendererProps> = ({
             {expression === 'excited' && '🎉'}
             {expression === 'sad' && '😢'}
             {expression === 'surprised' && '😲'}
+            {expression === 'sleepy' && '😴'}
           </motion.div>
         )}
       </motion.div>
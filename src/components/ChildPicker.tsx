@@ -0,0 +1,55 @@
+import React from 'react'
+import { useAppStore, getProfileRecords } from '../store/appStore'
+import { Sparkles } from 'lucide-react'
+
+interface ChildPickerProps {
+  onPicked: () => void
+}
+
+const avatarColors = [
+  'from-pink-400 to-rose-500',
+  'from-blue-400 to-indigo-500',
+  'from-green-400 to-emerald-500',
+  'from-yellow-400 to-orange-500',
+  'from-purple-400 to-fuchsia-500'
+]
+
+// Shown on launch when several children share the device: each child taps their own picture
+const ChildPicker: React.FC<ChildPickerProps> = ({ onPicked }) => {
+  const state = useAppStore()
+  const profiles = getProfileRecords(state)
+
+  const handlePick = (profileId: string) => {
+    state.switchProfile(profileId)
+    onPicked()
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 flex items-center justify-center p-8">
+      <div className="bg-white rounded-3xl shadow-2xl p-8 max-w-2xl w-full text-center">
+        <div className="w-16 h-16 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Sparkles className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-3xl font-bold text-gray-800 mb-8">今天是谁来玩呀？</h1>
+
+        <div className="flex flex-wrap justify-center gap-6">
+          {profiles.map((record, index) => (
+            <button
+              key={record.id}
+              onClick={() => handlePick(record.id)}
+              className="flex flex-col items-center gap-3 p-4 rounded-2xl hover:bg-gray-50 transition-all duration-200 transform hover:scale-105"
+              aria-label={`${record.profile.name}，${record.profile.age}岁`}
+            >
+              <div className={`w-24 h-24 bg-gradient-to-br ${avatarColors[index % avatarColors.length]} rounded-full flex items-center justify-center shadow-lg`}>
+                <span className="text-4xl font-bold text-white">{record.profile.name.slice(0, 1)}</span>
+              </div>
+              <span className="text-xl font-semibold text-gray-700">{record.profile.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ChildPicker
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react'
+import { useShallow } from 'zustand/react/shallow'
+import { useAppStore, getProfileRecords } from '../store/appStore'
+import {
+  createDataBundle,
+  parseDataBundle,
+  findBundleConflicts,
+  applyDataBundle,
+  getBundleFileName,
+  BundleParseResult,
+  BundleConflict
+} from '../utils/dataBundle'
+import AdultGate from './AdultGate'
+import { Download, Upload, AlertTriangle } from 'lucide-react'
+
+interface PendingImport {
+  fileName: string
+  result: BundleParseResult
+  conflicts: BundleConflict[]
+}
+
+// Backs up all family data to a file and restores it; both steps need an adult
+const DataBackupPanel: React.FC = () => {
+  const state = useAppStore(useShallow(s => ({
+    childProfile: s.childProfile,
+    settings: s.settings,
+    profiles: s.profiles,
+    activeProfileId: s.activeProfileId,
+    garden: s.garden,
+    inventory: s.inventory
+  })))
+  const [gateAction, setGateAction] = useState<'export' | 'import' | null>(null)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const exportData = async () => {
+    const bundle = await createDataBundle()
+    if (!bundle) {
+      setStatus('还没有可以导出的数据')
+      return
+    }
+
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getBundleFileName(bundle)
+    link.click()
+    URL.revokeObjectURL(url)
+    setStatus(`已导出${bundle.behaviorLog.events.length}条行为记录和全部档案`)
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = '' // choosing the same file again should read it again
+    if (!file) return
+
+    file.text()
+      .then(text => {
+        const result = parseDataBundle(text)
+        const conflicts = result.bundle
+          ? findBundleConflicts(result.bundle, { profiles: getProfileRecords(state), settings: state.settings })
+          : []
+        setPendingImport({ fileName: file.name, result, conflicts })
+        setStatus(null)
+      })
+      .catch(error => console.warn('Failed to read backup file:', error))
+  }
+
+  const importData = async () => {
+    const bundle = pendingImport?.result.bundle
+    if (!bundle) return
+
+    await applyDataBundle(bundle)
+    setPendingImport(null)
+    setStatus('备份已恢复')
+  }
+
+  const handleGatePass = () => {
+    const action = gateAction
+    setGateAction(null)
+    const run = action === 'export' ? exportData : importData
+    run().catch(error => {
+      console.warn(`Failed to ${action} family data:`, error)
+      setStatus(action === 'export' ? '导出失败，请再试一次' : '导入失败，数据没有改变')
+    })
+  }
+
+  const bundle = pendingImport?.result.bundle
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={() => setGateAction('export')}
+          className="flex items-center gap-2 bg-blue-500 text-white font-medium py-2 px-4 rounded-xl hover:bg-blue-600 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          导出备份
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-2 bg-white text-blue-600 border-2 border-blue-200 font-medium py-2 px-4 rounded-xl hover:bg-blue-50 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          从备份恢复
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {status && <p className="text-sm text-gray-700">{status}</p>}
+
+      {pendingImport && (
+        <div className="bg-white rounded-xl p-4 space-y-3">
+          <p className="font-medium text-gray-800">{pendingImport.fileName}</p>
+
+          {pendingImport.result.errors.length > 0 ? (
+            <ul className="text-sm text-red-600 space-y-1">
+              {pendingImport.result.errors.map(error => <li key={error}>✗ {error}</li>)}
+            </ul>
+          ) : bundle && (
+            <p className="text-sm text-gray-600">
+              {bundle.exportedAt > 0 && `导出于${new Date(bundle.exportedAt).toLocaleString()}，`}
+              包含{bundle.store.state.profiles?.length ?? 1}个孩子的档案和{bundle.behaviorLog.events.length}条行为记录
+              {pendingImport.result.migratedFrom !== undefined && `（已从第${pendingImport.result.migratedFrom}版格式升级）`}
+            </p>
+          )}
+
+          {pendingImport.result.warnings.length > 0 && (
+            <ul className="text-sm text-yellow-700 space-y-1">
+              {pendingImport.result.warnings.map(warning => <li key={warning}>• {warning}</li>)}
+            </ul>
+          )}
+
+          {pendingImport.conflicts.length > 0 && (
+            <div className="bg-yellow-50 rounded-lg p-3">
+              <p className="flex items-center gap-2 text-sm font-medium text-yellow-800 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                导入会替换这台设备上的数据：
+              </p>
+              <ul className="text-sm text-yellow-800 space-y-1">
+                {pendingImport.conflicts.map(conflict => <li key={conflict.message}>• {conflict.message}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {bundle && (
+              <button
+                onClick={() => setGateAction('import')}
+                className="bg-red-500 text-white text-sm font-medium py-2 px-4 rounded-lg hover:bg-red-600 transition-colors"
+              >
+                确认导入
+              </button>
+            )}
+            <button
+              onClick={() => setPendingImport(null)}
+              className="bg-gray-100 text-gray-700 text-sm font-medium py-2 px-4 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      )}
+
+      {gateAction && (
+        <AdultGate
+          title={gateAction === 'export' ? '导出家庭数据' : '用备份替换数据'}
+          onPass={handleGatePass}
+          onCancel={() => setGateAction(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default DataBackupPanel
@@ -1,23 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useAppStore } from '../store/appStore'
-import { Droplets, Heart, Sprout, TreePine, Carrot } from 'lucide-react'
+import { GardenPlot, isPlantThirsty, canPlant } from '../game/gardenSimulation'
+import { configManager, DecorationConfig } from '../config/appConfig'
+import { Droplets, Heart, Sprout, TreePine, Carrot, ShoppingBasket } from 'lucide-react'
 import NavigationBar from './NavigationBar'
 import GameCanvas from './GameCanvas'
 import PlantRenderer from './PlantRenderer'
 import WeatherEffect from './WeatherEffect'
+import { useIsWindingDown } from '../hooks/useSessionTimer'
 import { KeyboardNavigator, ScreenReaderManager, reducedMotionManager } from '../utils/accessibility'
 
-interface Plant {
-  id: string
-  x: number
-  y: number
-  stage: 'empty' | 'seed' | 'sprout' | 'small' | 'flowering'
-  lastWatered: number
-  plantedTime: number
-  plantType: 'flower' | 'tree' | 'vegetable'
-}
-
 interface Seed {
   id: string
   name: string
@@ -27,17 +20,20 @@ interface Seed {
 }
 
 const GardenScene: React.FC = () => {
-  const { recordBehavior } = useAppStore()
+  const { recordBehavior, garden, inventory, plantSeed: plantSeedInPlot, waterPlant: waterPlot, harvestPlant, decoratePlot, arrangeBouquet, updateGardenGrowth } = useAppStore()
+  const plants = garden.plots
+  const basket = inventory
+    .filter(item => item.origin.scene === 'garden')
+    .reduce<Record<string, { emoji: string; count: number }>>((groups, item) => {
+      groups[item.itemId] = { emoji: item.emoji, count: (groups[item.itemId]?.count || 0) + 1 }
+      return groups
+    }, {})
+  const { decorations, bouquet } = configManager.getConfig().scenes.garden
+  const canArrangeBouquet = (basket[bouquet.produceId]?.count ?? 0) >= bouquet.size
   const usePhaser = false  // 使用修复后的界面而不是GameCanvas
   const keyboardNavigator = useRef<KeyboardNavigator>(new KeyboardNavigator())
   const gardenContainerRef = useRef<HTMLDivElement>(null)
   
-  const [plants, setPlants] = useState<Plant[]>([
-    { id: 'plot1', x: 150, y: 300, stage: 'empty', lastWatered: 0, plantedTime: 0, plantType: 'flower' },
-    { id: 'plot2', x: 300, y: 300, stage: 'empty', lastWatered: 0, plantedTime: 0, plantType: 'tree' },
-    { id: 'plot3', x: 450, y: 300, stage: 'empty', lastWatered: 0, plantedTime: 0, plantType: 'vegetable' }
-  ])
-
   const [seeds] = useState<Seed[]>([
     { id: 'flower_seed', name: '花种子', icon: Sprout, color: 'bg-pink-200', plantType: 'flower' },
     { id: 'tree_seed', name: '树种子', icon: TreePine, color: 'bg-amber-200', plantType: 'tree' },
@@ -45,60 +41,53 @@ const GardenScene: React.FC = () => {
   ])
 
   const [draggedSeed, setDraggedSeed] = useState<Seed | null>(null)
-  const [selectedTool, setSelectedTool] = useState<'seed' | 'water' | null>(null)
+  const [selectedTool, setSelectedTool] = useState<'seed' | 'water' | 'decorate' | null>(null)
+  const [selectedDecoration, setSelectedDecoration] = useState<DecorationConfig | null>(null)
   const [feedback, setFeedback] = useState<{message: string, x: number, y: number} | null>(null)
   const [waterCanPosition, setWaterCanPosition] = useState({ x: 100, y: 200 })
   const [weatherType, setWeatherType] = useState<'sunny' | 'cloudy' | 'rainy' | 'light-spots'>('sunny')
   const [reducedMotion, setReducedMotion] = useState(false)
+  // Near the end of play time the garden turns to dusk, whatever the weather cycle was doing
+  const isWindingDown = useIsWindingDown()
   const [justWateredPlants, setJustWateredPlants] = useState<Set<string>>(new Set())
   const [growingPlants, setGrowingPlants] = useState<Set<string>>(new Set())
   const [draggedTool, setDraggedTool] = useState<'seed' | 'water' | null>(null)
   const [waterDrops, setWaterDrops] = useState<Array<{id: string, x: number, y: number}>>([])
   const gardenRef = useRef<HTMLDivElement>(null)
 
-  // Plant growth logic
+  const [now, setNow] = useState(Date.now())
+  const previousStages = useRef<Map<string, GardenPlot['stage']>>(new Map())
+
+  // Plant growth logic - stages are derived from wall-clock time, so catch up on mount
   useEffect(() => {
-    const interval = setInterval(() => {
-      setPlants(prev => prev.map(plant => {
-        if (plant.stage === 'empty') return plant
-        
-        const timeSincePlanted = Date.now() - plant.plantedTime
-        
-        // Growth stages based on time and watering
-        if (plant.stage === 'seed' && timeSincePlanted > 5000) { // 5 seconds
-          setGrowingPlants(prev => new Set(prev).add(plant.id))
-          setTimeout(() => setGrowingPlants(prev => {
-            const next = new Set(prev)
-            next.delete(plant.id)
-            return next
-          }), 1500)
-          return { ...plant, stage: 'sprout' }
-        }
-        if (plant.stage === 'sprout' && timeSincePlanted > 15000) { // 15 seconds
-          setGrowingPlants(prev => new Set(prev).add(plant.id))
-          setTimeout(() => setGrowingPlants(prev => {
-            const next = new Set(prev)
-            next.delete(plant.id)
-            return next
-          }), 1500)
-          return { ...plant, stage: 'small' }
-        }
-        if (plant.stage === 'small' && timeSincePlanted > 30000) { // 30 seconds
-          setGrowingPlants(prev => new Set(prev).add(plant.id))
-          setTimeout(() => setGrowingPlants(prev => {
-            const next = new Set(prev)
-            next.delete(plant.id)
-            return next
-          }), 1500)
-          return { ...plant, stage: 'flowering' }
-        }
-        
-        return plant
-      }))
-    }, 1000)
+    const tick = () => {
+      updateGardenGrowth()
+      setNow(Date.now())
+    }
+
+    tick()
+    const interval = setInterval(tick, 1000)
 
     return () => clearInterval(interval)
-  }, [])
+  }, [updateGardenGrowth])
+
+  // Play the growing animation whenever a plot reaches a new stage
+  useEffect(() => {
+    plants.forEach(plant => {
+      const previousStage = previousStages.current.get(plant.id)
+      previousStages.current.set(plant.id, plant.stage)
+
+      // Skip the first render and freshly planted seeds
+      if (!previousStage || previousStage === plant.stage || plant.stage === 'seed') return
+
+      setGrowingPlants(prev => new Set(prev).add(plant.id))
+      setTimeout(() => setGrowingPlants(prev => {
+        const next = new Set(prev)
+        next.delete(plant.id)
+        return next
+      }), 1500)
+    })
+  }, [plants])
 
   // Check for reduced motion preference
   useEffect(() => {
@@ -130,6 +119,7 @@ const GardenScene: React.FC = () => {
       if (e.key === 'Escape') {
         setSelectedTool(null)
         setDraggedSeed(null)
+        setSelectedDecoration(null)
         ScreenReaderManager.announce('工具已取消', 'polite')
       }
       
@@ -175,9 +165,15 @@ const GardenScene: React.FC = () => {
 
   const handleSeedMouseDown = (seed: Seed, e: React.MouseEvent) => {
     e.preventDefault()
+    if (!canPlant(garden, seed.plantType)) {
+      showFeedback(`${seed.name}用完了，收获植物会得到新种子哦！`, e.clientX, e.clientY)
+      ScreenReaderManager.announce(`${seed.name}用完了，收获成熟的植物可以得到新种子`, 'polite')
+      return
+    }
     setDraggedTool('seed')
     setDraggedSeed(seed)
     setSelectedTool('seed')
+    setSelectedDecoration(null)
     showFeedback(`拿起了${seed.name}！`, e.clientX, e.clientY)
     ScreenReaderManager.announce(`拿起了${seed.name}，请拖拽到土地种植`, 'polite')
   }
@@ -186,6 +182,7 @@ const GardenScene: React.FC = () => {
     e.preventDefault()
     setDraggedTool('water')
     setSelectedTool('water')
+    setSelectedDecoration(null)
     showFeedback('拿起了水壶！', e.clientX, e.clientY)
     ScreenReaderManager.announce('拿起了水壶，请拖拽到植物浇水', 'polite')
   }
@@ -245,32 +242,30 @@ const GardenScene: React.FC = () => {
     
     setDraggedTool(null)
     setDraggedSeed(null)
-    setSelectedTool(null)
+    // Decorations are picked up with a click rather than dragged, so keep them in hand
+    setSelectedTool(tool => (tool === 'decorate' ? tool : null))
   }
 
-  const handlePlotClick = (plot: Plant, e: React.MouseEvent) => {
-    if (selectedTool === 'seed' && draggedSeed && plot.stage === 'empty') {
+  const handlePlotClick = (plot: GardenPlot, e: React.MouseEvent) => {
+    if (plot.stage === 'mature') {
+      harvestPlot(plot, e)
+    } else if (selectedTool === 'seed' && draggedSeed && plot.stage === 'empty') {
       plantSeed(plot, draggedSeed, e)
     } else if (selectedTool === 'water' && plot.stage !== 'empty') {
       waterPlant(plot, e)
+    } else if (selectedTool === 'decorate' && selectedDecoration) {
+      decorate(plot, selectedDecoration, e)
     } else if (plot.stage === 'empty') {
       showFeedback('这里需要种子哦！', e.clientX, e.clientY)
+    } else if (isPlantThirsty(plot, now)) {
+      showFeedback('植物有点渴了，给它浇浇水吧！', e.clientX, e.clientY)
     } else {
       showFeedback('植物看起来很开心！', e.clientX, e.clientY)
     }
   }
 
-  const plantSeed = (plot: Plant, seed: Seed, e: React.MouseEvent) => {
-    setPlants(prev => prev.map(plant => 
-      plant.id === plot.id 
-        ? { 
-            ...plant, 
-            stage: 'seed', 
-            plantedTime: Date.now(),
-            plantType: seed.plantType
-          }
-        : plant
-    ))
+  const plantSeed = (plot: GardenPlot, seed: Seed, e: React.MouseEvent) => {
+    plantSeedInPlot(plot.id, seed.plantType)
 
     recordBehavior({
       action: 'create',
@@ -279,23 +274,75 @@ const GardenScene: React.FC = () => {
     })
 
     showFeedback(`种下了${seed.name}！`, e.clientX, e.clientY)
-    ScreenReaderManager.announce(`成功种下了${seed.name}，请等待它发芽`, 'polite')
+    ScreenReaderManager.announce(`成功种下了${seed.name}，浇水后它就会慢慢发芽`, 'polite')
     setSelectedTool(null)
     setDraggedSeed(null)
   }
 
-  const waterPlant = (plant: Plant, e: React.MouseEvent) => {
+  const handleDecorationClick = (decoration: DecorationConfig, e: React.MouseEvent) => {
+    if (selectedDecoration?.id === decoration.id) {
+      setSelectedTool(null)
+      setSelectedDecoration(null)
+      return
+    }
+    setSelectedTool('decorate')
+    setSelectedDecoration(decoration)
+    showFeedback(`拿起了${decoration.name}${decoration.emoji}！`, e.clientX, e.clientY)
+    ScreenReaderManager.announce(`拿起了${decoration.name}，点击一块土地来装饰它`, 'polite')
+  }
+
+  const decorate = (plot: GardenPlot, decoration: DecorationConfig, e: React.MouseEvent) => {
+    decoratePlot(plot.id, decoration.id)
+
+    recordBehavior({
+      action: 'create',
+      scene: 'garden',
+      object: `decorated_${decoration.id}`,
+      targetId: plot.id
+    })
+
+    showFeedback(`用${decoration.name}把小花园打扮得真漂亮！`, e.clientX, e.clientY)
+    ScreenReaderManager.announce(`用${decoration.name}装饰了这块土地`, 'polite')
+    setSelectedTool(null)
+    setSelectedDecoration(null)
+  }
+
+  const handleArrangeBouquet = (e: React.MouseEvent) => {
+    const item = arrangeBouquet()
+    if (!item) return
+
+    recordBehavior({
+      action: 'create',
+      scene: 'garden',
+      object: item.itemId
+    })
+
+    showFeedback(`扎好了一束${item.emoji}${item.name}，带回家送给小伙伴吧！`, e.clientX, e.clientY)
+    ScreenReaderManager.announce(`用${bouquet.size}束花扎成了一束${item.name}`, 'polite')
+  }
+
+  const harvestPlot = (plot: GardenPlot, e: React.MouseEvent) => {
+    const harvest = harvestPlant(plot.id)
+    if (!harvest) return
+
+    recordBehavior({
+      action: 'create',
+      scene: 'garden',
+      object: `harvested_${harvest.plantType}`
+    })
+
+    showFeedback(`收获了${harvest.produceEmoji} ${harvest.produceName}，还得到了${harvest.seedCount}颗新种子！可以带回家送给小伙伴哦！`, e.clientX, e.clientY)
+    ScreenReaderManager.announce(`收获了${harvest.produceCount}个${harvest.produceName}和${harvest.seedCount}颗新种子`, 'polite')
+  }
+
+  const waterPlant = (plant: GardenPlot, e: React.MouseEvent) => {
     if (plant.stage === 'empty') {
       showFeedback('这里还没有植物哦！', e.clientX, e.clientY)
       ScreenReaderManager.announce('这里还没有植物，请先种植', 'polite')
       return
     }
 
-    setPlants(prev => prev.map(p => 
-      p.id === plant.id 
-        ? { ...p, lastWatered: Date.now() }
-        : p
-    ))
+    waterPlot(plant.id)
 
     // Add to just watered set for animation
     setJustWateredPlants(prev => new Set(prev).add(plant.id))
@@ -372,10 +419,10 @@ const GardenScene: React.FC = () => {
       
       {/* Weather effects */}
       <WeatherEffect 
-        type={weatherType}
+        type={isWindingDown ? 'dusk' : weatherType}
         intensity="light"
         reducedMotion={reducedMotion}
-        aria-label={`当前天气：${weatherType === 'sunny' ? '阳光明媚' : weatherType === 'cloudy' ? '多云' : weatherType === 'rainy' ? '下雨' : '光斑点点'}`}
+        aria-label={`当前天气：${isWindingDown ? '天快黑了' : weatherType === 'sunny' ? '阳光明媚' : weatherType === 'cloudy' ? '多云' : weatherType === 'rainy' ? '下雨' : '光斑点点'}`}
       />
       
       {/* Enhanced background layers with garden decorations */}
@@ -514,13 +561,15 @@ const GardenScene: React.FC = () => {
               key={seed.id}
               onMouseDown={(e) => handleSeedMouseDown(seed, e)}
               className={`flex flex-col items-center p-4 rounded-xl transition-all duration-300 hover:shadow-lg cursor-grab ${
+                !canPlant(garden, seed.plantType) ? 'opacity-40 grayscale' : ''
+              } ${
                 draggedSeed?.id === seed.id 
                   ? 'bg-green-200 border-2 border-green-400 scale-110 shadow-xl cursor-grabbing' 
                   : 'bg-gradient-to-br from-gray-50 to-white hover:from-green-50 hover:to-green-100 border-2 border-transparent hover:border-green-200 hover:scale-105'
               }`}
               whileHover={{ scale: 1.08, y: -2 }}
               whileTap={{ scale: 0.95 }}
-              aria-label={`${seed.name} - 拖拽到土地种植`}
+              aria-label={`${seed.name}，剩${garden.seedInventory[seed.plantType]}颗 - 拖拽到土地种植`}
               aria-pressed={draggedSeed?.id === seed.id}
               title={`拖拽${seed.name}到土地种植`}
             >
@@ -532,10 +581,60 @@ const GardenScene: React.FC = () => {
                 <seed.icon className="w-8 h-8 text-green-700" aria-hidden="true" />
               </motion.div>
               <span className="text-sm font-medium text-gray-700">{seed.name}</span>
-              <div className="text-xs text-gray-500 mt-1">按 {index + 1}</div>
+              <div className="text-xs text-gray-500 mt-1">
+                剩 {garden.seedInventory[seed.plantType]} 颗 · 按 {index + 1}
+              </div>
             </motion.div>
           ))}
         </div>
+        <div className="mt-4 flex items-center gap-2" role="group" aria-label="装饰工具">
+          <span className="text-sm font-medium text-gray-700">装饰</span>
+          {decorations.map(decoration => (
+            <motion.button
+              key={decoration.id}
+              onClick={(e) => handleDecorationClick(decoration, e)}
+              className={`w-12 h-12 rounded-xl text-2xl flex items-center justify-center border-2 transition-colors touch-manipulation ${
+                selectedDecoration?.id === decoration.id
+                  ? 'bg-purple-100 border-purple-400'
+                  : 'bg-gray-50 border-transparent hover:bg-purple-50'
+              }`}
+              whileHover={{ scale: 1.08 }}
+              whileTap={{ scale: 0.95 }}
+              aria-label={`${decoration.name} - 点击后再点击土地装饰`}
+              aria-pressed={selectedDecoration?.id === decoration.id}
+              title={`用${decoration.name}装饰土地`}
+            >
+              {decoration.emoji}
+            </motion.button>
+          ))}
+        </div>
+        <div
+          className="mt-4 flex items-center gap-2 text-sm text-gray-700"
+          role="status"
+          aria-label="收获篮"
+        >
+          <ShoppingBasket className="w-5 h-5 text-amber-600" aria-hidden="true" />
+          <span className="font-medium">收获篮</span>
+          {Object.entries(basket).map(([itemId, produce]) => (
+            <span key={itemId} className="bg-amber-50 rounded-full px-2 py-1">
+              {produce.emoji} × {produce.count}
+            </span>
+          ))}
+          {Object.keys(basket).length === 0 && (
+            <span className="text-xs text-gray-500">还是空的</span>
+          )}
+          {canArrangeBouquet && (
+            <motion.button
+              onClick={handleArrangeBouquet}
+              className="bg-pink-100 hover:bg-pink-200 text-pink-700 rounded-full px-3 py-1 font-medium touch-manipulation"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              aria-label={`用${bouquet.size}束花扎一束${bouquet.name}`}
+            >
+              扎{bouquet.name} {bouquet.emoji}
+            </motion.button>
+          )}
+        </div>
       </motion.div>
       
       <motion.div 
@@ -565,11 +664,11 @@ const GardenScene: React.FC = () => {
             key={plant.id}
             className="cursor-pointer hover:scale-105 transition-transform duration-300"
             onClick={(e) => handlePlotClick(plant, e)}
-            style={{ marginTop: plant.stage === 'flowering' ? '-20px' : '0' }}
+            style={{ marginTop: plant.stage === 'flowering' || plant.stage === 'mature' ? '-20px' : '0' }}
             role="button"
-            aria-label={`种植槽 ${index + 1} - ${plant.stage === 'empty' ? '空地' : `${plant.plantType === 'flower' ? '花朵' : plant.plantType === 'tree' ? '树木' : '蔬菜'}，${Date.now() - plant.lastWatered < 10000 ? '已浇水' : '需要浇水'}`}`}
+            aria-label={`种植槽 ${index + 1} - ${plant.stage === 'empty' ? '空地' : `${plant.plantType === 'flower' ? '花朵' : plant.plantType === 'tree' ? '树木' : '蔬菜'}，${plant.stage === 'mature' ? '可以收获' : isPlantThirsty(plant, now) ? '需要浇水' : '已浇水'}`}`}
             tabIndex={0}
-            title={plant.stage === 'empty' ? '点击种植' : '点击照料植物'}
+            title={plant.stage === 'empty' ? '点击种植' : plant.stage === 'mature' ? '点击收获' : '点击照料植物'}
             initial={{ scale: plant.stage === 'empty' ? 0.8 : 1, opacity: plant.stage === 'empty' ? 0.6 : 1 }}
             animate={{ 
               scale: growingPlants.has(plant.id) ? [1, 1.1, 1] : 1,
@@ -592,12 +691,30 @@ const GardenScene: React.FC = () => {
                 size="medium"
                 isWatered={justWateredPlants.has(plant.id)}
                 isGrowing={growingPlants.has(plant.id)}
+                isThirsty={isPlantThirsty(plant, now)}
                 reducedMotion={reducedMotion}
                 className="mb-2"
-                aria-label={`${plant.plantType === 'flower' ? '花朵' : plant.plantType === 'tree' ? '树木' : '蔬菜'} - ${plant.stage === 'seed' ? '种子' : plant.stage === 'sprout' ? '发芽' : plant.stage === 'small' ? '小苗' : plant.stage === 'flowering' ? '开花' : '空地'}`}
+                aria-label={`${plant.plantType === 'flower' ? '花朵' : plant.plantType === 'tree' ? '树木' : '蔬菜'} - ${plant.stage === 'seed' ? '种子' : plant.stage === 'sprout' ? '发芽' : plant.stage === 'small' ? '小苗' : plant.stage === 'flowering' ? '开花' : plant.stage === 'mature' ? '成熟了，可以收获' : '空地'}`}
               />
             </motion.div>
-            {plant.stage !== 'empty' && (
+            {plant.decoration && (
+              <span className="block text-center text-xl -mt-2" aria-hidden="true">
+                {decorations.find(decoration => decoration.id === plant.decoration)?.emoji}
+              </span>
+            )}
+            {plant.stage === 'mature' && (
+              <motion.div
+                className="text-center"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: reducedMotion ? 0 : [0, -4, 0] }}
+                transition={{ duration: 1.5, repeat: reducedMotion ? 0 : Infinity }}
+              >
+                <span className="text-xs text-amber-700 font-medium bg-amber-50 rounded-full px-2 py-1">
+                  {configManager.getPlantById(plant.plantType)?.harvest.produceEmoji} 点我收获
+                </span>
+              </motion.div>
+            )}
+            {plant.stage !== 'empty' && plant.stage !== 'mature' && (
               <motion.div 
                 className="text-center"
                 initial={{ opacity: 0, y: 10 }}
@@ -606,14 +723,14 @@ const GardenScene: React.FC = () => {
               >
                 <motion.div 
                   className={`w-3 h-3 rounded-full mx-auto transition-all duration-500 ${
-                    Date.now() - plant.lastWatered < 10000 ? 'bg-blue-400 shadow-md' : 'bg-gray-300'
+                    isPlantThirsty(plant, now) ? 'bg-gray-300' : 'bg-blue-400 shadow-md'
                   }`} 
                   aria-hidden="true"
                   animate={justWateredPlants.has(plant.id) ? { scale: [1, 1.3, 1] } : {}}
                   transition={{ duration: 0.5 }}
                 />
                 <span className="text-xs text-gray-600 font-medium">
-                  {Date.now() - plant.lastWatered < 10000 ? '已浇水' : '需要水'}
+                  {isPlantThirsty(plant, now) ? '需要水' : '已浇水'}
                 </span>
               </motion.div>
             )}
@@ -683,6 +800,10 @@ const GardenScene: React.FC = () => {
             <Droplets className="w-4 h-4 text-blue-600" />
             <span>点击水壶，然后点击植物浇水</span>
           </li>
+          <li className="flex items-center gap-2">
+            <Heart className="w-4 h-4 text-purple-500" />
+            <span>用蝴蝶结和小石子装饰土地，三束花能扎成花束</span>
+          </li>
           <li className="flex items-center gap-2">
             <Heart className="w-4 h-4 text-red-500" />
             <span>健康的成长需要时间</span>
@@ -691,6 +812,10 @@ const GardenScene: React.FC = () => {
             <TreePine className="w-4 h-4 text-green-700" />
             <span>耐心等待美丽的花朵绽放</span>
           </li>
+          <li className="flex items-center gap-2">
+            <ShoppingBasket className="w-4 h-4 text-amber-600" />
+            <span>成熟的植物可以收获果实和新种子</span>
+          </li>
         </ul>
       </div>
       
@@ -765,14 +890,23 @@ const GardenScene: React.FC = () => {
           animate={{ opacity: [0.8, 1, 0.8] }}
           transition={{ duration: 4, repeat: Infinity }}
         >
-          {weatherType === 'sunny' && <motion.span animate={{ rotate: [0, 360] }} transition={{ duration: 8, repeat: Infinity }}>☀️</motion.span>}
-          {weatherType === 'cloudy' && <motion.span animate={{ y: [0, -2, 0] }} transition={{ duration: 3, repeat: Infinity }}>☁️</motion.span>}
-          {weatherType === 'rainy' && <motion.span animate={{ rotate: [0, 10, -10, 0] }} transition={{ duration: 1, repeat: Infinity }}>🌧️</motion.span>}
-          {weatherType === 'light-spots' && <motion.span animate={{ scale: [1, 1.2, 1] }} transition={{ duration: 2, repeat: Infinity }}>✨</motion.span>}
-          {weatherType === 'sunny' && '阳光明媚，植物们很开心！'}
-          {weatherType === 'cloudy' && '多云天气，适合植物生长～'}
-          {weatherType === 'rainy' && '下雨了，植物们得到了自然的滋润！'}
-          {weatherType === 'light-spots' && '光斑点点，花园充满了魔法～'}
+          {isWindingDown ? (
+            <>
+              <motion.span animate={{ y: [0, -2, 0] }} transition={{ duration: 3, repeat: Infinity }}>🌇</motion.span>
+              天快黑了，植物们也准备睡觉啦～
+            </>
+          ) : (
+            <>
+              {weatherType === 'sunny' && <motion.span animate={{ rotate: [0, 360] }} transition={{ duration: 8, repeat: Infinity }}>☀️</motion.span>}
+              {weatherType === 'cloudy' && <motion.span animate={{ y: [0, -2, 0] }} transition={{ duration: 3, repeat: Infinity }}>☁️</motion.span>}
+              {weatherType === 'rainy' && <motion.span animate={{ rotate: [0, 10, -10, 0] }} transition={{ duration: 1, repeat: Infinity }}>🌧️</motion.span>}
+              {weatherType === 'light-spots' && <motion.span animate={{ scale: [1, 1.2, 1] }} transition={{ duration: 2, repeat: Infinity }}>✨</motion.span>}
+              {weatherType === 'sunny' && '阳光明媚，植物们很开心！'}
+              {weatherType === 'cloudy' && '多云天气，适合植物生长～'}
+              {weatherType === 'rainy' && '下雨了，植物们得到了自然的滋润！'}
+              {weatherType === 'light-spots' && '光斑点点，花园充满了魔法～'}
+            </>
+          )}
         </motion.p>
       </motion.div>
     </div>
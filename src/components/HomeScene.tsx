@@ -1,29 +1,32 @@
-import React, { useState, useRef, useEffect } from 'react'
-import { useAppStore } from '../store/appStore'
-import { Heart, Star, Gift, Music } from 'lucide-react'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import { useAppStore, InventoryItem } from '../store/appStore'
+import { Heart } from 'lucide-react'
 import NavigationBar from './NavigationBar'
 import { motion, AnimatePresence } from 'framer-motion'
-import CharacterRenderer, { useCharacterState } from './CharacterRenderer'
-import ToyRenderer, { useToyInteraction, type ToyInteraction } from './ToyRenderer'
+import CharacterRenderer from './CharacterRenderer'
+import ToyRenderer from './ToyRenderer'
+import { useSceneConfig } from '../hooks/useAppConfig'
+import { useCharacterStates, useToyInteractions } from '../hooks/useSceneEntityStates'
+import { useIsWindingDown } from '../hooks/useSessionTimer'
+import { speakTextDirectly } from './AudioManager'
+import {
+  createCharacterMemory,
+  passOverCharacter,
+  respondToInteraction,
+  type CharacterMemory,
+  type InteractionKind
+} from '../game/characterBehavior'
+import type { CharacterConfig, ToyConfig, HelpTaskConfig, ScenePosition } from '../config/appConfig'
 import '../styles/design-system.css'
 
-interface Character {
-  id: string
-  name: string
-  x: number
-  y: number
-  mood: 'happy' | 'neutral' | 'excited'
-  color: string
-}
+// Scene entities are the configured characters and toys placed at their current position
+type Character = CharacterConfig & ScenePosition
+type Toy = ToyConfig & ScenePosition
+
+const YAWN_INTERVAL = 6000 // while winding down, one friend yawns every few seconds
 
-interface Toy {
-  id: string
-  name: string
-  x: number
-  y: number
-  icon: React.ElementType
-  color: string
-  sound?: string
+const pickRandom = (messages: string[], fallback: string) => {
+  return messages.length > 0 ? messages[Math.floor(Math.random() * messages.length)] : fallback
 }
 
 const HomeScene: React.FC = () => {
@@ -31,36 +34,57 @@ const HomeScene: React.FC = () => {
     recordBehavior, 
     setDraggedItem, 
     recordInteraction,
-    updateSettings 
+    updateSettings,
+    inventory,
+    giveInventoryItem
   } = useAppStore()
   
-  const [characters, setCharacters] = useState<Character[]>([
-    { id: 'bunny', name: '小兔兔', x: 200, y: 300, mood: 'neutral', color: 'bg-pink-200' },
-    { id: 'bear', name: '小熊熊', x: 400, y: 250, mood: 'neutral', color: 'bg-amber-200' },
-    { id: 'parent_mom', name: '妈妈', x: 100, y: 200, mood: 'happy', color: 'bg-blue-200' }
-  ])
-
-  const [toys, setToys] = useState<Toy[]>([
-    { id: 'ball', name: '小球', x: 150, y: 400, icon: Star, color: 'bg-yellow-300', sound: 'bounce' },
-    { id: 'music_box', name: '音乐盒', x: 300, y: 450, icon: Music, color: 'bg-purple-300', sound: 'music' },
-    { id: 'gift', name: '礼物', x: 450, y: 380, icon: Gift, color: 'bg-red-300', sound: 'surprise' }
-  ])
+  const homeConfig = useSceneConfig('home')
+  // Toys start where the config places them; positions the child drags them to stay local
+  const [toyPositions, setToyPositions] = useState<Record<string, ScenePosition>>({})
+
+  const characters = useMemo<Character[]>(() => (
+    homeConfig.characters.map(character => ({ ...character, ...character.position }))
+  ), [homeConfig.characters])
+
+  const toys = useMemo<Toy[]>(() => (
+    homeConfig.toys.map(toy => ({ ...toy, ...(toyPositions[toy.id] ?? toy.position) }))
+  ), [homeConfig.toys, toyPositions])
+
+  const [interactionPrompt] = useState(() => pickRandom(homeConfig.interactionPrompts, '分享会带来快乐哦！'))
 
   const [draggedToy, setDraggedToy] = useState<Toy | null>(null)
+  // Produce carried home from the garden; positions stay local while the items live in the store
+  const [draggedProduce, setDraggedProduce] = useState<InventoryItem | null>(null)
+  const [producePositions, setProducePositions] = useState<Record<string, { x: number; y: number }>>({})
+  // Chores friends ask for help with; each toy tidied and each item carried counts once per visit
+  const [draggedTask, setDraggedTask] = useState<HelpTaskConfig | null>(null)
+  const [taskPositions, setTaskPositions] = useState<Record<string, ScenePosition>>({})
+  const [tidiedToys, setTidiedToys] = useState<Set<string>>(new Set())
+  const [carriedTasks, setCarriedTasks] = useState<Set<string>>(new Set())
   const [feedback, setFeedback] = useState<{type: string, message: string, x: number, y: number} | null>(null)
   const [sharingAnimation, setSharingAnimation] = useState<{toyId: string, characterId: string} | null>(null)
   const [reducedMotion, setReducedMotion] = useState(false)
   const sceneRef = useRef<HTMLDivElement>(null)
 
-  // Character state management
-  const bunnyState = useCharacterState('neutral')
-  const bearState = useCharacterState('neutral')
-  const parentMomState = useCharacterState('happy')
+  // Character and toy state, keyed by config id
+  const characterStates = useCharacterStates()
+  const toyInteractions = useToyInteractions()
+  // What each friend remembers about the child this visit; only read when they react
+  const characterMemories = useRef<Record<string, CharacterMemory>>({})
+  // Near the end of play time the friends get sleepy and settle there between reactions
+  const isWindingDown = useIsWindingDown()
+  const { triggerAnimation } = characterStates
+
+  useEffect(() => {
+    if (!isWindingDown || characters.length === 0) return
 
-  // Toy interaction management
-  const ballInteraction = useToyInteraction()
-  const musicBoxInteraction = useToyInteraction()
-  const giftInteraction = useToyInteraction()
+    const interval = setInterval(() => {
+      const character = characters[Math.floor(Math.random() * characters.length)]
+      triggerAnimation(character.id, 'yawn', 1800)
+    }, YAWN_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isWindingDown, characters, triggerAnimation])
 
   // Check for reduced motion preference
   useEffect(() => {
@@ -82,50 +106,133 @@ const HomeScene: React.FC = () => {
     recordInteraction(`pickup_${toy.id}`)
     
     // Trigger toy interaction
-    if (toy.id === 'ball') ballInteraction.startDrag()
-    else if (toy.id === 'music_box') musicBoxInteraction.startDrag()
-    else if (toy.id === 'gift') giftInteraction.startDrag()
+    toyInteractions.startDrag(toy.id)
+  }
+
+  const getProducePosition = (item: InventoryItem, index: number) => {
+    return producePositions[item.id] ?? { x: 560 + (index % 3) * 70, y: 400 + Math.floor(index / 3) * 70 }
+  }
+
+  const handleProduceMouseDown = (item: InventoryItem, e: React.MouseEvent) => {
+    e.preventDefault()
+    setDraggedProduce(item)
+    setDraggedItem(item.id)
+    recordInteraction(`pickup_${item.itemId}`)
+  }
+
+  const handleTaskMouseDown = (task: HelpTaskConfig, e: React.MouseEvent) => {
+    e.preventDefault()
+    speakTextDirectly(task.request, 'normal')
+    if (task.kind !== 'carry_item') return
+
+    setDraggedTask(task)
+    setDraggedItem(task.id)
+    recordInteraction(`pickup_${task.id}`)
   }
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (draggedTask && sceneRef.current) {
+      const rect = sceneRef.current.getBoundingClientRect()
+      setTaskPositions(prev => ({
+        ...prev,
+        [draggedTask.id]: { x: e.clientX - rect.left, y: e.clientY - rect.top }
+      }))
+    }
+
+    if (draggedProduce && sceneRef.current) {
+      const rect = sceneRef.current.getBoundingClientRect()
+      setProducePositions(prev => ({
+        ...prev,
+        [draggedProduce.id]: { x: e.clientX - rect.left - 25, y: e.clientY - rect.top - 25 }
+      }))
+    }
+
     if (draggedToy && sceneRef.current) {
       const rect = sceneRef.current.getBoundingClientRect()
       const x = e.clientX - rect.left
       const y = e.clientY - rect.top
       
-      setToys(prev => prev.map(toy => 
-        toy.id === draggedToy.id 
-          ? { ...toy, x: x - 25, y: y - 25 }
-          : toy
-      ))
+      setToyPositions(prev => ({ ...prev, [draggedToy.id]: { x: x - 25, y: y - 25 } }))
     }
   }
 
+  const findCharacterAt = (x: number, y: number) => {
+    return characters.find(char => {
+      const distance = Math.sqrt(
+        Math.pow(x - char.x, 2) + Math.pow(y - char.y, 2)
+      )
+      return distance < 80
+    })
+  }
+
+  // Tasks are drawn centred on their position, like characters
+  const findTidySpotAt = (x: number, y: number) => {
+    return homeConfig.helpTasks.find(task => {
+      const distance = Math.sqrt(
+        Math.pow(x - task.position.x, 2) + Math.pow(y - task.position.y, 2)
+      )
+      return task.kind === 'tidy_toys' && distance < 80
+    })
+  }
+
   const handleMouseUp = (e: React.MouseEvent) => {
-    if (draggedToy && sceneRef.current) {
+    if (draggedTask && sceneRef.current) {
       const rect = sceneRef.current.getBoundingClientRect()
       const x = e.clientX - rect.left
       const y = e.clientY - rect.top
+      const droppedOnCharacter = findCharacterAt(x, y)
 
-      // Reset toy interactions
-      ballInteraction.endDrag()
-      musicBoxInteraction.endDrag()
-      giftInteraction.endDrag()
+      if (droppedOnCharacter?.id === draggedTask.characterId) {
+        handleCarrying(draggedTask, droppedOnCharacter, x, y)
+      } else {
+        showFeedback('moved', `${draggedTask.name}放在这里啦！`, x, y)
+      }
 
-      // Check if toy was dropped on a character
-      const droppedOnCharacter = characters.find(char => {
-        const distance = Math.sqrt(
-          Math.pow(x - char.x, 2) + Math.pow(y - char.y, 2)
-        )
-        return distance < 80
-      })
+      setDraggedTask(null)
+      setDraggedItem(null)
+    }
+
+    if (draggedProduce && sceneRef.current) {
+      const rect = sceneRef.current.getBoundingClientRect()
+      const x = e.clientX - rect.left
+      const y = e.clientY - rect.top
+      const droppedOnCharacter = findCharacterAt(x, y)
 
       if (droppedOnCharacter) {
+        handleGiving(draggedProduce, droppedOnCharacter, x, y)
+      } else {
+        showFeedback('moved', `${draggedProduce.name}放在这里啦！`, x, y)
+      }
+
+      setDraggedProduce(null)
+      setDraggedItem(null)
+    }
+
+    if (draggedToy && sceneRef.current) {
+      const rect = sceneRef.current.getBoundingClientRect()
+      const x = e.clientX - rect.left
+      const y = e.clientY - rect.top
+
+      // Reset toy interaction
+      toyInteractions.endDrag(draggedToy.id)
+
+      // Check if toy was put away or dropped on a character
+      const tidySpot = findTidySpotAt(x, y)
+      const droppedOnCharacter = findCharacterAt(x, y)
+
+      if (tidySpot) {
+        handleTidying(draggedToy, tidySpot, x, y)
+      } else if (droppedOnCharacter) {
         // Sharing behavior detected!
         handleSharing(draggedToy, droppedOnCharacter, x, y)
       } else {
-        // Toy was just moved, not shared
+        // Toy was just moved, not shared; still worth knowing which toys the child reaches for
         showFeedback('moved', '玩具移动了！', x, y)
+        recordBehavior({
+          action: 'play',
+          scene: 'home',
+          object: draggedToy.id
+        })
       }
     }
 
@@ -133,54 +240,137 @@ const HomeScene: React.FC = () => {
     setDraggedItem(null)
   }
 
-  const handleSharing = (toy: Toy, character: Character, x: number, y: number) => {
-    // Record the sharing behavior
-    recordBehavior({
-      action: 'share',
-      scene: 'home',
-      object: `${toy.id}_to_${character.id}`
+  // Runs a character's personality-driven reaction and returns what they say
+  const reactToInteraction = (character: Character, kind: InteractionKind, duration: number) => {
+    const { memory, response } = respondToInteraction(
+      character,
+      characterMemories.current[character.id] ?? createCharacterMemory(),
+      kind,
+      Date.now()
+    )
+    characterMemories.current[character.id] = memory
+
+    characterStates.changeExpression(character.id, response.expression, duration, response.restingExpression)
+    characterStates.triggerAnimation(character.id, response.animation, 1000)
+    return response
+  }
+
+  // Friends passed over for several shares in a row get softly sad and say an `ignore` line
+  const passOverOthers = (recipient: Character) => {
+    characters.forEach(character => {
+      if (character.id === recipient.id) return
+
+      const { memory, response } = passOverCharacter(
+        character,
+        characterMemories.current[character.id] ?? createCharacterMemory(),
+        Date.now()
+      )
+      characterMemories.current[character.id] = memory
+      if (!response) return
+
+      characterStates.changeExpression(character.id, response.expression, 4000, response.restingExpression)
+      if (response.message) speakTextDirectly(response.message, 'normal')
     })
+  }
 
+  // Sharing with a friend who felt left out is its own moment, recorded as 'reconcile'
+  const shareWith = (character: Character, x: number, y: number, getMessage: (message: string) => string) => {
+    const response = reactToInteraction(character, 'share', 3000)
+    passOverOthers(character)
+
+    if (response.isRecovery) {
+      showFeedback('recovered', `${character.name}又开心起来啦！`, x, y)
+      if (response.message) speakTextDirectly(response.message, 'high')
+    } else {
+      showFeedback('shared', getMessage(response.message), x, y)
+    }
+    return response
+  }
+
+  const handleSharing = (toy: Toy, character: Character, x: number, y: number) => {
     // Trigger sharing animation
     setSharingAnimation({ toyId: toy.id, characterId: character.id })
 
-    // Update character mood with expressions
-    setCharacters(prev => prev.map(char => 
-      char.id === character.id 
-        ? { ...char, mood: 'excited' }
-        : char
-    ))
+    // Trigger character reaction, feedback and toy sharing animation
+    const response = shareWith(character, x, y, message =>
+      `${character.name}：${message || pickRandom(homeConfig.sharingMessages, '很开心！')}`
+    )
+    toyInteractions.shareToy(toy.id)
 
-    // Trigger character expressions
-    if (character.id === 'bunny') bunnyState.changeExpression('excited')
-    else if (character.id === 'bear') bearState.changeExpression('excited')
-    else if (character.id === 'parent_mom') parentMomState.changeExpression('excited')
+    // Record the sharing behavior
+    recordBehavior({
+      action: response.isRecovery ? 'reconcile' : 'share',
+      scene: 'home',
+      object: toy.id,
+      targetId: character.id
+    })
+
+    setTimeout(() => {
+      setSharingAnimation(null)
+    }, 3000)
+  }
 
-    // Trigger toy sharing animation
-    if (toy.id === 'ball') ballInteraction.shareToy()
-    else if (toy.id === 'music_box') musicBoxInteraction.shareToy()
-    else if (toy.id === 'gift') giftInteraction.shareToy()
+  // Giving garden produce links value creation (garden) to value transmission (home)
+  const handleGiving = (item: InventoryItem, character: Character, x: number, y: number) => {
+    setSharingAnimation({ toyId: item.id, characterId: character.id })
+    const response = shareWith(character, x, y, () => `${character.name} 收到了你种的${item.name}！`)
 
-    // Show positive feedback with animation
-    showFeedback('shared', `${character.name} 很开心！`, x, y)
+    giveInventoryItem(item.id, character.id, response.isRecovery ? 'reconcile' : 'share')
+    setProducePositions(prev => {
+      const next = { ...prev }
+      delete next[item.id]
+      return next
+    })
 
-    // Reset character mood and expressions after a delay
     setTimeout(() => {
-      setCharacters(prev => prev.map(char => 
-        char.id === character.id 
-          ? { ...char, mood: 'happy' }
-          : char
-      ))
-      
-      // Reset expressions
-      if (character.id === 'bunny') bunnyState.changeExpression('happy')
-      else if (character.id === 'bear') bearState.changeExpression('happy')
-      else if (character.id === 'parent_mom') parentMomState.changeExpression('happy')
-      
       setSharingAnimation(null)
     }, 3000)
   }
 
+  const thankHelper = (task: HelpTaskConfig, x: number, y: number) => {
+    const character = characters.find(c => c.id === task.characterId)
+    if (character) {
+      characterStates.changeExpression(character.id, 'happy', 3000)
+      characterStates.triggerAnimation(character.id, 'jump', 1000)
+    }
+    showFeedback('helped', `${character?.name ?? ''}：${task.thanks}`, x, y)
+    speakTextDirectly(task.thanks, 'high')
+  }
+
+  // A toy put back in the box goes home to its usual spot
+  const handleTidying = (toy: Toy, task: HelpTaskConfig, x: number, y: number) => {
+    setToyPositions(prev => {
+      const next = { ...prev }
+      delete next[toy.id]
+      return next
+    })
+
+    if (tidiedToys.has(toy.id)) {
+      showFeedback('moved', `${toy.name}已经在箱子里啦！`, x, y)
+      return
+    }
+    setTidiedToys(prev => new Set(prev).add(toy.id))
+
+    recordBehavior({
+      action: 'help',
+      scene: 'home',
+      object: `tidy_${toy.id}`,
+      targetId: task.characterId
+    })
+    thankHelper(task, x, y)
+  }
+
+  const handleCarrying = (task: HelpTaskConfig, character: Character, x: number, y: number) => {
+    setCarriedTasks(prev => new Set(prev).add(task.id))
+    recordBehavior({
+      action: 'help',
+      scene: 'home',
+      object: task.id,
+      targetId: character.id
+    })
+    thankHelper(task, x, y)
+  }
+
   const showFeedback = (type: string, message: string, x: number, y: number) => {
     setFeedback({ type, message, x, y })
     setTimeout(() => setFeedback(null), 2000)
@@ -189,26 +379,15 @@ const HomeScene: React.FC = () => {
   const handleCharacterClick = (character: Character) => {
     recordInteraction(`click_${character.id}`)
     
-    // Trigger character wave animation
-    if (character.id === 'bunny') bunnyState.triggerAnimation('wave', 1000)
-    else if (character.id === 'bear') bearState.triggerAnimation('wave', 1000)
-    else if (character.id === 'parent_mom') parentMomState.triggerAnimation('wave', 1000)
+    const response = reactToInteraction(character, 'click', 2000)
     
-    showFeedback('interaction', `${character.name} 说你好！`, character.x, character.y + 60)
+    showFeedback('interaction', `${character.name}：${response.message || '你好！'}`, character.x, character.y + 60)
   }
 
   const handleSettingsClick = () => {
     updateSettings({ parentMode: true })
   }
 
-  // Get toy interaction state
-  const getToyInteraction = (toyId: string): ToyInteraction => {
-    if (toyId === 'ball') return ballInteraction.interaction
-    if (toyId === 'music_box') return musicBoxInteraction.interaction
-    if (toyId === 'gift') return giftInteraction.interaction
-    return 'idle'
-  }
-
   return (
     <div 
       ref={sceneRef}
@@ -278,16 +457,11 @@ const HomeScene: React.FC = () => {
               <CharacterRenderer
                 characterId={character.id}
                 expression={
-                  character.id === 'bunny' ? bunnyState.expression :
-                  character.id === 'bear' ? bearState.expression :
-                  parentMomState.expression
-                }
-                animation={
-                  character.id === 'bunny' && bunnyState.isAnimating ? 'wave' :
-                  character.id === 'bear' && bearState.isAnimating ? 'wave' :
-                  character.id === 'parent_mom' && parentMomState.isAnimating ? 'wave' :
-                  'idle'
+                  isWindingDown && characterStates.getExpression(character.id) === 'neutral'
+                    ? 'sleepy'
+                    : characterStates.getExpression(character.id)
                 }
+                animation={characterStates.getAnimation(character.id)}
                 size="medium"
                 reducedMotion={reducedMotion}
                 enableAccessibility={true}
@@ -311,7 +485,7 @@ const HomeScene: React.FC = () => {
       <AnimatePresence>
         {toys.map((toy, index) => {
           const isDraggingCurrent = draggedToy?.id === toy.id
-          const interaction = getToyInteraction(toy.id)
+          const interaction = toyInteractions.getInteraction(toy.id)
           
           return (
             <motion.div
@@ -360,6 +534,75 @@ const HomeScene: React.FC = () => {
         })}
       </AnimatePresence>
 
+      {/* Chores friends would like a hand with */}
+      {homeConfig.helpTasks.filter(task => !carriedTasks.has(task.id)).map(task => {
+        const position = taskPositions[task.id] ?? task.position
+        const isCarry = task.kind === 'carry_item'
+
+        return (
+          <motion.div
+            key={task.id}
+            className="absolute"
+            style={{ left: position.x - 30, top: position.y - 30 }}
+            initial={{ scale: 0, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            transition={{ duration: reducedMotion ? 0 : 0.5, type: "spring", stiffness: 200 }}
+          >
+            <motion.div
+              onMouseDown={(e) => handleTaskMouseDown(task, e)}
+              className={`w-16 h-16 bg-amber-50 border-2 border-dashed border-amber-300 rounded-2xl flex items-center justify-center shadow-md text-4xl ${
+                isCarry ? 'cursor-grab' : 'cursor-pointer'
+              }`}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              animate={draggedTask?.id === task.id ? { scale: 1.1 } : {}}
+              role="button"
+              aria-label={isCarry ? `${task.name} - 拖给需要它的家人` : `${task.name} - 把玩具拖进来收拾好`}
+            >
+              <span aria-hidden="true">{task.emoji}</span>
+            </motion.div>
+            <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-medium text-amber-700 whitespace-nowrap bg-white bg-opacity-80 px-2 py-1 rounded-full shadow-sm">
+              {task.name}
+            </div>
+          </motion.div>
+        )
+      })}
+
+      {/* Produce harvested in the garden, ready to give to friends */}
+      <AnimatePresence>
+        {inventory.map((item, index) => {
+          const position = getProducePosition(item, index)
+          const isDraggingCurrent = draggedProduce?.id === item.id
+
+          return (
+            <motion.div
+              key={item.id}
+              className="absolute"
+              style={{ left: position.x, top: position.y }}
+              initial={{ scale: 0, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0, opacity: 0 }}
+              transition={{ duration: reducedMotion ? 0 : 0.5, type: "spring", stiffness: 200 }}
+            >
+              <motion.div
+                onMouseDown={(e) => handleProduceMouseDown(item, e)}
+                className="w-14 h-14 bg-green-100 border-2 border-green-300 rounded-full flex items-center justify-center shadow-md cursor-grab text-3xl"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                animate={isDraggingCurrent ? { scale: 1.1 } : {}}
+                role="button"
+                aria-label={`${item.name}，从花园收获的 - 拖给小伙伴分享`}
+              >
+                <span aria-hidden="true">{item.emoji}</span>
+              </motion.div>
+              <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 text-xs font-medium text-green-700 whitespace-nowrap bg-white bg-opacity-80 px-2 py-1 rounded-full shadow-sm">
+                {item.name}
+              </div>
+            </motion.div>
+          )
+        })}
+      </AnimatePresence>
+
       {/* Enhanced Feedback messages with animations */}
       <AnimatePresence>
         {feedback && (
@@ -427,7 +670,7 @@ const HomeScene: React.FC = () => {
           >
             💝
           </motion.span>
-          分享会带来快乐哦！
+          {interactionPrompt}
           <motion.span
             animate={{ scale: [1, 1.2, 1] }}
             transition={{ duration: 1.5, repeat: Infinity }}
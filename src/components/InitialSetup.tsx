@@ -8,14 +8,17 @@ const InitialSetup: React.FC = () => {
   const [childName, setChildName] = useState('')
   const [childAge, setChildAge] = useState<number>(3)
   const [parentName, setParentName] = useState('')
+  const [parentPin, setParentPin] = useState('')
+  const isPinValid = parentPin === '' || /^\d{4}$/.test(parentPin)
 
   const handleWelcomeContinue = () => {
     setStep('setup')
   }
 
   const handleSetupComplete = () => {
-    if (childName.trim()) {
+    if (childName.trim() && isPinValid) {
       initializeChild(childName.trim(), childAge)
+      if (parentPin) updateSettings({ parentPin })
       setStep('complete')
       
       // Auto-switch to child mode after 2 seconds
@@ -132,6 +135,23 @@ const InitialSetup: React.FC = () => {
                 className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-400 focus:outline-none transition-colors"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                家长 PIN（可选，4位数字）
+              </label>
+              <input
+                type="password"
+                inputMode="numeric"
+                value={parentPin}
+                onChange={(e) => setParentPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+                placeholder="进入家长模式时使用"
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-400 focus:outline-none transition-colors"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                不设置 PIN 时，需要按住按钮并回答一道算术题才能进入家长模式
+              </p>
+            </div>
           </div>
 
           <div className="mt-8 bg-yellow-50 rounded-xl p-4 mb-6">
@@ -149,9 +169,9 @@ const InitialSetup: React.FC = () => {
 
           <button
             onClick={handleSetupComplete}
-            disabled={!childName.trim()}
+            disabled={!childName.trim() || !isPinValid}
             className={`w-full font-semibold py-4 px-6 rounded-2xl transition-all duration-200 transform hover:scale-105 ${
-              childName.trim()
+              childName.trim() && isPinValid
                 ? 'bg-gradient-to-r from-green-500 to-blue-500 text-white hover:from-green-600 hover:to-blue-600 shadow-lg'
                 : 'bg-gray-300 text-gray-500 cursor-not-allowed'
             }`}
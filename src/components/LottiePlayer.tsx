@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react'
+import type { AnimationItem } from 'lottie-web'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
+import { reducedMotionManager } from '../utils/accessibility'
+import { performanceMonitor, PerformanceGrade } from '../utils/performanceMonitor'
+
+export interface LottiePlayerProps {
+  assetId: string // a lottie asset from the manifest
+  loop?: boolean
+  playing?: boolean
+  reducedMotion?: boolean
+  className?: string
+  fallback?: React.ReactNode // shown instead when the animation cannot or should not play
+  onComplete?: () => void
+}
+
+// Plays a lottie asset. Reduced motion, a 'poor' performance grade or a failed load leave
+// the fallback in its place; offscreen animations pause until they scroll back into view.
+export const LottiePlayer: React.FC<LottiePlayerProps> = ({
+  assetId,
+  loop = true,
+  playing = true,
+  reducedMotion = false,
+  className = '',
+  fallback = null,
+  onComplete
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const animationRef = useRef<AnimationItem | null>(null)
+  const onCompleteRef = useRef(onComplete)
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(() => reducedMotionManager.getPrefersReducedMotion())
+  const [performanceGrade, setPerformanceGrade] = useState<PerformanceGrade>(() => performanceMonitor.getPerformanceGrade())
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [failed, setFailed] = useState(false)
+  const [isVisible, setIsVisible] = useState(true)
+  useRetainedAssets([assetId])
+
+  const enabled = !reducedMotion && !prefersReducedMotion && performanceGrade !== 'poor' && !failed
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete
+  }, [onComplete])
+
+  useEffect(() => {
+    reducedMotionManager.addListener(setPrefersReducedMotion)
+    const unsubscribe = performanceMonitor.onPerformanceDegradation(setPerformanceGrade)
+    return () => {
+      reducedMotionManager.removeListener(setPrefersReducedMotion)
+      unsubscribe()
+    }
+  }, [])
+
+  // The lottie runtime is only downloaded once an animation actually plays
+  useEffect(() => {
+    const container = containerRef.current
+    if (!enabled || !container) return
+
+    let cancelled = false
+    Promise.all([assetManager.loadAsset(assetId), import('lottie-web/build/player/lottie_svg')])
+      .then(([animationData, { default: lottie }]) => {
+        if (cancelled) return
+        if (!animationData || typeof animationData !== 'object') {
+          throw new Error(`Asset ${assetId} is not a lottie animation`)
+        }
+
+        const animation = lottie.loadAnimation({
+          container,
+          renderer: 'svg',
+          loop,
+          autoplay: false,
+          animationData
+        })
+        animation.addEventListener('complete', () => onCompleteRef.current?.())
+        animationRef.current = animation
+        setIsLoaded(true)
+      })
+      .catch(error => {
+        console.warn(`Failed to load lottie animation ${assetId}:`, error)
+        if (!cancelled) setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+      animationRef.current?.destroy()
+      animationRef.current = null
+      setIsLoaded(false)
+    }
+  }, [assetId, loop, enabled])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!enabled || !container) return
+    return assetManager.observeVisibility(container, setIsVisible)
+  }, [enabled])
+
+  useEffect(() => {
+    const animation = animationRef.current
+    if (!animation) return
+    if (playing && isVisible) {
+      animation.play()
+    } else {
+      animation.pause()
+    }
+  }, [playing, isVisible, isLoaded])
+
+  if (!enabled) return <>{fallback}</>
+
+  return (
+    <>
+      {!isLoaded && fallback}
+      <div ref={containerRef} className={`pointer-events-none ${className}`} aria-hidden="true" />
+    </>
+  )
+}
+
+export default LottiePlayer
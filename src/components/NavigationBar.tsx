@@ -17,10 +17,10 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
   onBack,
   title
 }) => {
-  const { updateSettings, setCurrentScene } = useAppStore()
+  const { updateSettings, goToScene } = useAppStore()
 
   const handleHomeClick = () => {
-    setCurrentScene('town')
+    goToScene('town')
   }
 
   const handleSettingsClick = () => {
@@ -31,12 +31,12 @@ const NavigationBar: React.FC<NavigationBarProps> = ({
     if (onBack) {
       onBack()
     } else {
-      setCurrentScene('town')
+      goToScene('town')
     }
   }
 
   return (
-    <nav className="fixed top-0 left-0 right-0 z-50 bg-white bg-opacity-95 backdrop-blur-sm shadow-sm">
+    <nav className="fixed top-0 left-0 right-0 z-50 bg-white bg-opacity-95 backdrop-blur-sm shadow-sm print:hidden">
       <div className="flex items-center justify-between px-4 py-3">
         {/* Left side - Home and Back buttons */}
         <div className="flex items-center gap-2">
@@ -1,31 +1,52 @@
 import React, { useState } from 'react'
-import { useAppStore, getDominantInterests, getInterestLabel, formatPlayTime } from '../store/appStore'
-import { Heart, BarChart3, Lightbulb, Settings, ArrowLeft, Clock, TrendingUp, Baby } from 'lucide-react'
+import { useShallow } from 'zustand/react/shallow'
+import { useAppStore, getDominantInterests, getInterestLabel, formatPlayTime, getProfileRecords, getPlayedToday } from '../store/appStore'
+import { getRecentDays } from '../utils/playTimeLedger'
+import { useBehaviorSummary } from '../hooks/useBehaviorSummary'
+import { useParentSuggestions } from '../hooks/useParentSuggestions'
+import { useServiceWorkerUpdate } from '../hooks/useServiceWorkerUpdate'
+import { createDefaultSchedule, WEEKDAY_LABELS, PlayWindow } from '../utils/playSchedule'
+import { Heart, BarChart3, Lightbulb, Settings, ArrowLeft, Clock, TrendingUp, TrendingDown, Baby, Users, UserPlus, Trash2, Pencil, Check, Lock, Moon, FileText, RefreshCw } from 'lucide-react'
 import NavigationBar from './NavigationBar'
+import WeeklyReport from './WeeklyReport'
+import DataBackupPanel from './DataBackupPanel'
 
 const ParentMode: React.FC = () => {
-  const { 
-    childProfile, 
-    settings, 
-    updateSettings 
-  } = useAppStore()
+  const state = useAppStore(useShallow(s => ({
+    childProfile: s.childProfile,
+    settings: s.settings,
+    profiles: s.profiles,
+    activeProfileId: s.activeProfileId,
+    garden: s.garden,
+    inventory: s.inventory,
+    gameState: s.gameState
+  })))
+  const { childProfile, settings, activeProfileId } = state
+  const updateSettings = useAppStore(s => s.updateSettings)
+  const addProfile = useAppStore(s => s.addProfile)
+  const switchProfile = useAppStore(s => s.switchProfile)
+  const updateProfile = useAppStore(s => s.updateProfile)
+  const removeProfile = useAppStore(s => s.removeProfile)
+  const resetDailyTime = useAppStore(s => s.resetDailyTime)
+  const markSuggestion = useAppStore(s => s.markSuggestion)
   
-  const [activeTab, setActiveTab] = useState<'snapshot' | 'suggestions' | 'settings'>('snapshot')
+  const [activeTab, setActiveTab] = useState<'snapshot' | 'report' | 'suggestions' | 'profiles' | 'settings'>('snapshot')
+  const [editingProfile, setEditingProfile] = useState<{ id: string | null; name: string; age: number } | null>(null)
+  const profiles = getProfileRecords(state)
+  const [newPin, setNewPin] = useState('')
   const dominantInterests = getDominantInterests(childProfile.interests)
-
-  const getRecentBehaviors = (days: number = 7) => {
-    const cutoff = Date.now() - (days * 24 * 60 * 60 * 1000)
-    return childProfile.behaviors.filter(b => b.timestamp > cutoff)
-  }
+  // Last 7 days from the behaviour log
+  const weekSummary = useBehaviorSummary(7)
 
   const getBehaviorStats = () => {
-    const recentBehaviors = getRecentBehaviors()
+    const { counts } = weekSummary
     const totalSessions = childProfile.sessionCount
     const avgSessionTime = totalSessions > 0 ? childProfile.totalPlayTime / totalSessions : 0
     
-    const shareCount = recentBehaviors.filter(b => b.action === 'share').length
-    const helpCount = recentBehaviors.filter(b => b.action === 'help').length
-    const careCount = recentBehaviors.filter(b => b.action === 'care').length
+    // Making up with a friend who felt left out counts as sharing too
+    const shareCount = (counts.share ?? 0) + (counts.reconcile ?? 0)
+    const helpCount = counts.help ?? 0
+    const careCount = counts.care ?? 0
     
     return {
       totalSessions,
@@ -37,69 +58,11 @@ const ParentMode: React.FC = () => {
     }
   }
 
-  const getPlaySuggestions = () => {
-    const suggestions = []
-    
-    if (dominantInterests.length > 0) {
-      const topInterest = dominantInterests[0].category
-      
-      switch (topInterest) {
-        case 'music':
-          suggestions.push({
-            title: '音乐探索',
-            description: '这几天宝宝很喜欢音乐，可以一起制作简单的打击乐器，比如用筷子和碗做鼓。',
-            activity: '家庭音乐会'
-          })
-          break
-        case 'hands_on':
-          suggestions.push({
-            title: '动手创作',
-            description: '宝宝表现出对动手活动的兴趣，可以一起玩积木、拼图或者做手工。',
-            activity: '创意手工时间'
-          })
-          break
-        case 'care':
-          suggestions.push({
-            title: '照顾体验',
-            description: '宝宝喜欢照顾和关怀，可以一起照顾家里的植物或宠物，培养责任感。',
-            activity: '小小护理员'
-          })
-          break
-        case 'social':
-          suggestions.push({
-            title: '社交互动',
-            description: '宝宝喜欢与人互动，可以安排与其他小朋友的游戏时间，或者角色扮演游戏。',
-            activity: '朋友聚会'
-          })
-          break
-        case 'exploration':
-          suggestions.push({
-            title: '探索发现',
-            description: '宝宝充满好奇心，可以到公园探索自然，观察小动物和植物。',
-            activity: '自然探索之旅'
-          })
-          break
-      }
-    }
-
-    // General suggestions
-    suggestions.push({
-      title: '日常分享',
-      description: '在日常生活中多鼓励宝宝分享玩具和食物，强化分享带来的快乐体验。',
-      activity: '分享时刻'
-    })
-
-    suggestions.push({
-      title: '情感表达',
-      description: '通过绘本、歌曲等方式帮助宝宝理解和表达不同的情感。',
-      activity: '情感小课堂'
-    })
-
-    return suggestions
-  }
-
   const stats = getBehaviorStats()
-  const suggestions = getPlaySuggestions()
+  const recentPlayDays = getRecentDays(childProfile.dailyPlayTime, Date.now())
+  const dailyLimitMs = settings.dailyTimeLimit * 60 * 1000
+  const suggestions = useParentSuggestions(activeTab === 'suggestions')
+  const { updateAvailable, applyUpdate } = useServiceWorkerUpdate()
 
   const renderSnapshot = () => (
     <div className="space-y-6">
@@ -145,10 +108,16 @@ const ParentMode: React.FC = () => {
                   <div className="w-20 h-2 bg-gray-200 rounded-full overflow-hidden">
                     <div 
                       className="h-full bg-gradient-to-r from-pink-400 to-purple-500 rounded-full transition-all duration-300"
-                      style={{ width: `${Math.min(interest.score * 20, 100)}%` }}
+                      style={{ width: `${(interest.score / dominantInterests[0].score) * 100}%` }}
                     ></div>
                   </div>
                   <span className="text-sm text-gray-600">{Math.round(interest.score)}</span>
+                  {interest.trend === 'rising' && (
+                    <TrendingUp className="w-4 h-4 text-green-500" aria-label="最近越来越喜欢" />
+                  )}
+                  {interest.trend === 'falling' && (
+                    <TrendingDown className="w-4 h-4 text-gray-400" aria-label="最近玩得少了" />
+                  )}
                 </div>
               </div>
             ))}
@@ -198,6 +167,23 @@ const ParentMode: React.FC = () => {
         </h3>
         
         <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-gray-600">今日游戏时间</span>
+            <span className="font-medium">
+              {formatPlayTime(getPlayedToday(state))} / {settings.dailyTimeLimit}分钟
+            </span>
+          </div>
+          {childProfile.bedtimeUntil !== undefined && childProfile.bedtimeUntil > Date.now() && (
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600">今天已经说过晚安</span>
+              <button
+                onClick={() => resetDailyTime()}
+                className="text-sm px-3 py-1 rounded-lg bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors"
+              >
+                重新开始今天
+              </button>
+            </div>
+          )}
           <div className="flex justify-between items-center">
             <span className="text-gray-600">平均游戏时长</span>
             <span className="font-medium">{formatPlayTime(stats.avgSessionTime)}</span>
@@ -212,6 +198,23 @@ const ParentMode: React.FC = () => {
             </span>
           </div>
         </div>
+
+        {/* Last 7 days from the daily play-time ledger */}
+        <div className="mt-6">
+          <p className="text-sm text-gray-600 mb-2">最近7天</p>
+          <div className="flex items-end justify-between gap-2 h-24">
+            {recentPlayDays.map(day => (
+              <div key={day.date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+                <div
+                  className={`w-full rounded-t-lg ${day.playTime > dailyLimitMs ? 'bg-yellow-400' : 'bg-purple-300'}`}
+                  style={{ height: `${Math.min(100, (day.playTime / dailyLimitMs) * 100)}%` }}
+                  title={formatPlayTime(day.playTime)}
+                />
+                <span className="text-xs text-gray-500">{new Date(day.timestamp).getDate()}日</span>
+              </div>
+            ))}
+          </div>
+        </div>
       </div>
     </div>
   )
@@ -228,15 +231,53 @@ const ParentMode: React.FC = () => {
         </p>
       </div>
 
-      {suggestions.map((suggestion, index) => (
-        <div key={index} className="bg-white rounded-2xl p-6 shadow-lg">
-          <h4 className="text-lg font-bold text-gray-800 mb-2">{suggestion.title}</h4>
-          <p className="text-gray-600 mb-3">{suggestion.description}</p>
-          <div className="bg-blue-50 rounded-xl p-3">
-            <p className="text-sm font-medium text-blue-800">💡 建议活动：{suggestion.activity}</p>
+      {suggestions.map(suggestion => {
+        const feedback = childProfile.suggestionFeedback?.[suggestion.id]
+        return (
+          <div key={suggestion.id} className="bg-white rounded-2xl p-6 shadow-lg">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-lg font-bold text-gray-800">{suggestion.title}</h4>
+              <span className="flex items-center gap-1 text-sm text-gray-500">
+                <Clock className="w-4 h-4" />
+                约{suggestion.duration}分钟
+              </span>
+            </div>
+            <p className="text-gray-600 mb-3">{suggestion.description}</p>
+            <div className="bg-blue-50 rounded-xl p-3">
+              <p className="text-sm font-medium text-blue-800">💡 建议活动：{suggestion.activity}</p>
+              {suggestion.materials.length > 0 && (
+                <p className="text-sm text-blue-700 mt-1">🧺 准备：{suggestion.materials.join('、')}</p>
+              )}
+            </div>
+            {/* The parent's verdict tunes which activities come up next time */}
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => markSuggestion(suggestion.id, feedback === 'tried' ? null : 'tried')}
+                className={`flex items-center gap-1 text-sm px-3 py-1 rounded-lg transition-colors ${
+                  feedback === 'tried' ? 'bg-green-500 text-white' : 'bg-green-50 text-green-700 hover:bg-green-100'
+                }`}
+              >
+                <Check className="w-4 h-4" />
+                试过了
+              </button>
+              <button
+                onClick={() => markSuggestion(suggestion.id, feedback === 'not_for_us' ? null : 'not_for_us')}
+                className={`text-sm px-3 py-1 rounded-lg transition-colors ${
+                  feedback === 'not_for_us' ? 'bg-gray-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                不适合我们
+              </button>
+            </div>
           </div>
+        )
+      })}
+
+      {suggestions.length === 0 && (
+        <div className="bg-white rounded-2xl p-6 shadow-lg text-center text-gray-500">
+          暂时没有新的建议，过几天再来看看吧
         </div>
-      ))}
+      )}
 
       <div className="bg-yellow-50 rounded-2xl p-6">
         <h4 className="text-lg font-bold text-gray-800 mb-3 flex items-center gap-2">
@@ -254,6 +295,154 @@ const ParentMode: React.FC = () => {
     </div>
   )
 
+  const handleSaveProfile = () => {
+    if (!editingProfile || !editingProfile.name.trim()) return
+
+    const name = editingProfile.name.trim()
+    if (editingProfile.id) {
+      updateProfile(editingProfile.id, { name, age: editingProfile.age })
+    } else {
+      addProfile(name, editingProfile.age)
+    }
+    setEditingProfile(null)
+  }
+
+  const handleRemoveProfile = (profileId: string, name: string) => {
+    if (window.confirm(`确定要删除${name}的档案吗？TA的花园和成长记录也会一起删除。`)) {
+      removeProfile(profileId)
+    }
+  }
+
+  const renderProfileForm = () => editingProfile && (
+    <div className="p-4 bg-blue-50 rounded-xl space-y-3">
+      <input
+        type="text"
+        value={editingProfile.name}
+        onChange={(e) => setEditingProfile({ ...editingProfile, name: e.target.value })}
+        placeholder="宝宝的名字"
+        className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-400 focus:outline-none"
+        maxLength={10}
+      />
+      <div className="flex gap-2">
+        {[2, 3, 4].map(age => (
+          <button
+            key={age}
+            onClick={() => setEditingProfile({ ...editingProfile, age })}
+            className={`px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
+              editingProfile.age === age
+                ? 'bg-blue-500 text-white shadow-lg'
+                : 'bg-white text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            {age}岁
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleSaveProfile}
+          disabled={!editingProfile.name.trim()}
+          className="flex items-center gap-1 bg-blue-500 text-white px-4 py-2 rounded-xl hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" />
+          保存
+        </button>
+        <button
+          onClick={() => setEditingProfile(null)}
+          className="px-4 py-2 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+        >
+          取消
+        </button>
+      </div>
+    </div>
+  )
+
+  const renderProfiles = () => (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl p-6 shadow-lg">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Users className="w-5 h-5 text-blue-500" />
+          孩子档案
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          每个孩子都有自己的兴趣记录、花园和游戏时间。
+        </p>
+
+        <div className="space-y-3">
+          {profiles.map(record => (
+            editingProfile?.id === record.id ? (
+              <div key={record.id}>{renderProfileForm()}</div>
+            ) : (
+              <div key={record.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center">
+                    <Baby className="w-5 h-5 text-white" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {record.profile.name}
+                      {record.id === activeProfileId && (
+                        <span className="ml-2 text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">正在玩</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {record.profile.age}岁 · {formatPlayTime(record.profile.totalPlayTime)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {record.id !== activeProfileId && (
+                    <button
+                      onClick={() => switchProfile(record.id)}
+                      className="px-3 py-1 text-sm rounded-xl bg-blue-100 text-blue-700 hover:bg-blue-200 transition-colors"
+                    >
+                      切换
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEditingProfile({ id: record.id, name: record.profile.name, age: record.profile.age })}
+                    className="p-2 rounded-xl text-gray-600 hover:bg-gray-200 transition-colors"
+                    aria-label={`编辑${record.profile.name}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRemoveProfile(record.id, record.profile.name)}
+                    className="p-2 rounded-xl text-red-500 hover:bg-red-50 transition-colors"
+                    aria-label={`删除${record.profile.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+
+        <div className="mt-4">
+          {editingProfile && !editingProfile.id ? renderProfileForm() : (
+            <button
+              onClick={() => setEditingProfile({ id: null, name: '', age: 3 })}
+              className="flex items-center gap-2 bg-blue-500 text-white px-4 py-2 rounded-xl hover:bg-blue-600 transition-colors"
+            >
+              <UserPlus className="w-4 h-4" />
+              添加孩子
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  const updatePlayWindow = (weekday: number, changes: Partial<PlayWindow>) => {
+    if (!settings.playSchedule) return
+    updateSettings({
+      playSchedule: settings.playSchedule.map((window, index) =>
+        index === weekday ? { ...window, ...changes } : window
+      )
+    })
+  }
+
   const renderSettings = () => (
     <div className="space-y-6">
       <div className="bg-white rounded-2xl p-6 shadow-lg">
@@ -314,12 +503,108 @@ const ParentMode: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-white rounded-2xl p-6 shadow-lg">
+        <h3 className="text-lg font-bold text-gray-800 mb-2 flex items-center gap-2">
+          <Lock className="w-5 h-5 text-gray-500" />
+          家长 PIN
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {settings.parentPin
+            ? '已设置 PIN，进入家长模式和延长游戏时间时需要输入。'
+            : '未设置 PIN，进入家长模式时需要按住按钮并回答一道算术题。'}
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, '').slice(0, 4))}
+            placeholder="新的4位 PIN"
+            className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-400 focus:outline-none"
+          />
+          <button
+            onClick={() => {
+              updateSettings({ parentPin: newPin })
+              setNewPin('')
+            }}
+            disabled={newPin.length !== 4}
+            className="px-4 py-2 rounded-xl bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            保存
+          </button>
+          {settings.parentPin && (
+            <button
+              onClick={() => updateSettings({ parentPin: undefined })}
+              className="px-4 py-2 rounded-xl bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+            >
+              清除
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl p-6 shadow-lg">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <Moon className="w-5 h-5 text-gray-500" />
+            作息时间
+          </h3>
+          <button
+            onClick={() => updateSettings({ playSchedule: settings.playSchedule ? undefined : createDefaultSchedule() })}
+            className={`w-12 h-6 rounded-full transition-colors duration-200 ${
+              settings.playSchedule ? 'bg-blue-500' : 'bg-gray-300'
+            }`}
+          >
+            <div className={`w-5 h-5 bg-white rounded-full transition-transform duration-200 ${
+              settings.playSchedule ? 'translate-x-6' : 'translate-x-1'
+            }`}></div>
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          {settings.playSchedule
+            ? '只能在下面的时间段内玩，其余时间小世界会去睡觉。'
+            : '未设置作息时间，任何时候都可以玩。'}
+        </p>
+        {settings.playSchedule && (
+          <div className="space-y-2">
+            {settings.playSchedule.map((window, weekday) => (
+              <div key={weekday} className="flex items-center gap-3 p-2 bg-gray-50 rounded-xl">
+                <label className="flex items-center gap-2 w-20 font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={window.enabled}
+                    onChange={(e) => updatePlayWindow(weekday, { enabled: e.target.checked })}
+                  />
+                  {WEEKDAY_LABELS[weekday]}
+                </label>
+                <input
+                  type="time"
+                  value={window.start}
+                  disabled={!window.enabled}
+                  onChange={(e) => updatePlayWindow(weekday, { start: e.target.value })}
+                  className="px-2 py-1 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none disabled:opacity-50"
+                />
+                <span className="text-gray-500">至</span>
+                <input
+                  type="time"
+                  value={window.end}
+                  disabled={!window.enabled}
+                  onChange={(e) => updatePlayWindow(weekday, { end: e.target.value })}
+                  className="px-2 py-1 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none disabled:opacity-50"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       <div className="bg-red-50 rounded-2xl p-6">
         <h4 className="text-lg font-bold text-gray-800 mb-3">数据管理</h4>
         <p className="text-sm text-gray-600 mb-4">
-          所有数据都保存在本地设备上，不会上传到服务器。
+          所有数据都保存在本地设备上，不会上传到服务器。可以导出成一个备份文件，换设备时再导入。
         </p>
-        <button className="bg-red-500 text-white font-medium py-2 px-4 rounded-xl hover:bg-red-600 transition-colors">
+        <DataBackupPanel />
+        <button className="mt-4 bg-red-500 text-white font-medium py-2 px-4 rounded-xl hover:bg-red-600 transition-colors">
           清除所有数据
         </button>
       </div>
@@ -331,7 +616,7 @@ const ParentMode: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4 print:bg-none print:bg-white print:p-0">
       {/* Navigation Bar */}
       <NavigationBar 
         title="家长模式"
@@ -342,7 +627,7 @@ const ParentMode: React.FC = () => {
       />
       
       {/* Header */}
-      <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 mt-16">
+      <div className="bg-white rounded-2xl shadow-lg p-6 mb-6 mt-16 print:hidden">
         <div className="flex items-center justify-between mb-4">
           <div>
             <h1 className="text-2xl font-bold text-gray-800">家长模式</h1>
@@ -357,6 +642,19 @@ const ParentMode: React.FC = () => {
           </button>
         </div>
 
+        {updateAvailable && (
+          <div className="flex items-center justify-between gap-4 bg-green-50 border border-green-200 rounded-xl px-4 py-3 mb-4">
+            <p className="text-sm text-green-800">小小世界有新版本了，更新后会重新打开应用</p>
+            <button
+              onClick={applyUpdate}
+              className="flex items-center gap-2 bg-green-500 text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-green-600 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              立即更新
+            </button>
+          </div>
+        )}
+
         {/* Tab Navigation */}
         <div className="flex gap-2">
           <button
@@ -370,6 +668,17 @@ const ParentMode: React.FC = () => {
             <BarChart3 className="w-4 h-4" />
             成长快照
           </button>
+          <button
+            onClick={() => setActiveTab('report')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
+              activeTab === 'report'
+                ? 'bg-blue-500 text-white shadow-lg'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <FileText className="w-4 h-4" />
+            成长周报
+          </button>
           <button
             onClick={() => setActiveTab('suggestions')}
             className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
@@ -381,6 +690,17 @@ const ParentMode: React.FC = () => {
             <Lightbulb className="w-4 h-4" />
             共玩建议
           </button>
+          <button
+            onClick={() => setActiveTab('profiles')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
+              activeTab === 'profiles'
+                ? 'bg-blue-500 text-white shadow-lg'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            孩子档案
+          </button>
           <button
             onClick={() => setActiveTab('settings')}
             className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all duration-200 ${
@@ -398,7 +718,9 @@ const ParentMode: React.FC = () => {
       {/* Content */}
       <div className="max-w-4xl mx-auto">
         {activeTab === 'snapshot' && renderSnapshot()}
+        {activeTab === 'report' && <WeeklyReport />}
         {activeTab === 'suggestions' && renderSuggestions()}
+        {activeTab === 'profiles' && renderProfiles()}
         {activeTab === 'settings' && renderSettings()}
       </div>
     </div>
@@ -1,15 +1,17 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { assetManager } from '../config/assetConfig'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
 import { ANIMATION_TIMING, ANIMATION_EASING } from '../config/animationConfig'
 import { optimizeVariants, shouldEnableAnimations } from '../utils/performance'
 
 export interface PlantRendererProps {
-  plantStage: 'empty' | 'seed' | 'sprout' | 'small' | 'flowering'
+  plantStage: 'empty' | 'seed' | 'sprout' | 'small' | 'flowering' | 'mature'
   plantType: 'flower' | 'tree' | 'vegetable'
   size?: 'small' | 'medium' | 'large'
   isWatered?: boolean
   isGrowing?: boolean
+  isThirsty?: boolean
   reducedMotion?: boolean
   className?: string
   'aria-label'?: string
@@ -22,6 +24,7 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
   size = 'medium',
   isWatered = false,
   isGrowing = false,
+  isThirsty = false,
   reducedMotion = false,
   className = '',
   'aria-label': ariaLabel,
@@ -36,7 +39,8 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
     if (stage === 'seed') return 'plant_seed'
     if (stage === 'sprout') return 'plant_sprout'
     if (stage === 'small') return 'plant_small'
-    if (stage === 'flowering') {
+    // Mature plants reuse the full-grown artwork; the scene adds the produce cue
+    if (stage === 'flowering' || stage === 'mature') {
       if (type === 'flower') return 'plant_flower'
       if (type === 'tree') return 'plant_tree'
       if (type === 'vegetable') return 'plant_vegetable'
@@ -45,18 +49,20 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
     return 'seed_emoji'
   }
 
+  const assetId = getPlantAssetId(plantStage, plantType)
+  useRetainedAssets([assetId])
+
   // Load plant asset
   useEffect(() => {
     const loadPlantAsset = async () => {
       setIsLoading(true)
       try {
-        const assetId = getPlantAssetId(plantStage, plantType)
         const asset = await assetManager.loadAsset(assetId)
         setPlantAsset(asset)
       } catch (error) {
         console.warn('Failed to load plant asset:', error)
         // Fallback to emoji
-        const fallbackId = getPlantAssetId(plantStage, plantType) + '_emoji'
+        const fallbackId = assetId + '_emoji'
         const fallbackAsset = assetManager.getAsset(fallbackId)
         if (fallbackAsset && fallbackAsset.type === 'emoji') {
           setPlantAsset(fallbackAsset.src)
@@ -67,7 +73,7 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
     }
 
     loadPlantAsset()
-  }, [plantStage, plantType])
+  }, [assetId])
 
   // Size configurations
   const sizeConfig = {
@@ -124,6 +130,14 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
         times: [0, 0.3, 0.7, 1]
       }
     },
+    drooping: {
+      scale: 0.95,
+      rotate: -8,
+      transition: {
+        duration: reducedMotion ? 0.1 : ANIMATION_TIMING.complex.slow / 1000,
+        ease: ANIMATION_EASING.easeInOut,
+      }
+    },
     watered: {
       scale: [1, 1.05, 0.95, 1],
       rotate: [0, -3, 3, 0],
@@ -153,9 +167,14 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
     }
   })
 
+  const plantFilter = isWatered
+    ? 'brightness(1.1) saturate(1.2)'
+    : isThirsty ? 'saturate(0.7)' : 'none'
+
   const getAnimationState = (): keyof typeof growthVariants => {
     if (isGrowing) return 'growing'
     if (isWatered) return 'watered'
+    if (isThirsty) return 'drooping'
     return 'idle'
   }
 
@@ -211,7 +230,7 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
               className="w-full h-full"
               style={{ 
                 transform: `scale(${currentSize.scale})`,
-                filter: isWatered ? 'brightness(1.1) saturate(1.2)' : 'none'
+                filter: plantFilter
               }}
             />
           ) : (
@@ -219,7 +238,7 @@ export const PlantRenderer: React.FC<PlantRendererProps> = ({
               className="text-green-600"
               style={{ 
                 fontSize: `${currentSize.width * 0.6}px`,
-                filter: isWatered ? 'brightness(1.1) saturate(1.2)' : 'none'
+                filter: plantFilter
               }}
             >
               {plantAsset}
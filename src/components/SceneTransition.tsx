@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useAppStore, GameState } from '../store/appStore'
+import { assetManager } from '../utils/assetManager'
+import { shouldEnableAnimations } from '../utils/performance'
+
+type Scene = GameState['currentScene']
+
+const CLOSE_DURATION = 500 // the old scene stays visible until the doors have met
+const OPEN_DURATION = 700
+const MAX_WAIT = 4000 // after this the scene opens anyway; emoji stand in for what is still loading
+const PROGRESS_INTERVAL = 100
+
+interface TransitionTheme {
+  emoji: string
+  label: string
+  panelClass: string
+  panelStyle?: React.CSSProperties
+  knob?: boolean
+}
+
+// Home opens like the front door, the garden like its wooden gate, the town like a sky of clouds
+const THEMES: Record<Scene, TransitionTheme> = {
+  home: {
+    emoji: '🏠',
+    label: '开门回家啦',
+    panelClass: 'bg-amber-600 border-8 border-amber-800',
+    knob: true
+  },
+  garden: {
+    emoji: '🌷',
+    label: '推开花园的小门',
+    panelClass: 'bg-green-300 border-y-[24px] border-amber-700',
+    panelStyle: { backgroundImage: 'repeating-linear-gradient(90deg, #b45309 0 32px, transparent 32px 48px)' }
+  },
+  town: {
+    emoji: '☁️',
+    label: '回小镇去',
+    panelClass: 'bg-gradient-to-b from-sky-300 to-sky-100'
+  }
+}
+
+// Covers scene changes: the doors close, the next scene's assets load behind them, then they swing open
+const SceneTransition: React.FC = () => {
+  const { gameState, setCurrentScene } = useAppStore()
+  const { pendingScene } = gameState
+  const [scene, setScene] = useState<Scene | null>(null) // kept while the doors open onto it
+  const [isOpening, setIsOpening] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const animate = shouldEnableAnimations()
+
+  useEffect(() => {
+    if (!pendingScene) return
+
+    let cancelled = false
+    setScene(pendingScene)
+    setIsOpening(false)
+    setProgress(assetManager.getLoadingProgress(pendingScene).percentage)
+
+    const poll = setInterval(() => {
+      setProgress(assetManager.getLoadingProgress(pendingScene).percentage)
+    }, PROGRESS_INTERVAL)
+    const doorsClosed = new Promise(resolve => setTimeout(resolve, shouldEnableAnimations() ? CLOSE_DURATION : 0))
+
+    Promise.all([doorsClosed, assetManager.waitForBundle(pendingScene, MAX_WAIT)]).then(() => {
+      if (cancelled) return
+      setProgress(100)
+      setIsOpening(true)
+      setCurrentScene(pendingScene)
+    })
+
+    return () => {
+      cancelled = true
+      clearInterval(poll)
+    }
+  }, [pendingScene, setCurrentScene])
+
+  // A scene change cancelled elsewhere (e.g. switching child) takes the doors away at once
+  useEffect(() => {
+    if (!pendingScene && !isOpening) setScene(null)
+  }, [pendingScene, isOpening])
+
+  const handleAnimationComplete = () => {
+    if (!isOpening) return
+    setIsOpening(false)
+    setScene(null)
+  }
+
+  if (!scene) return null
+
+  const theme = THEMES[scene]
+  const transition = {
+    duration: animate ? (isOpening ? OPEN_DURATION : CLOSE_DURATION) / 1000 : 0,
+    ease: isOpening ? 'easeOut' as const : 'easeIn' as const
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex print:hidden" style={{ perspective: 1200 }} role="status" aria-label={theme.label}>
+      <motion.div
+        className={`relative w-1/2 h-full ${theme.panelClass}`}
+        style={{ ...theme.panelStyle, transformOrigin: 'left center' }}
+        initial={{ rotateY: -100 }}
+        animate={{ rotateY: isOpening ? -100 : 0 }}
+        transition={transition}
+        onAnimationComplete={handleAnimationComplete}
+      >
+        {theme.knob && <span className="absolute right-6 top-1/2 w-5 h-5 rounded-full bg-yellow-300 shadow" />}
+      </motion.div>
+      <motion.div
+        className={`relative w-1/2 h-full ${theme.panelClass}`}
+        style={{ ...theme.panelStyle, transformOrigin: 'right center' }}
+        initial={{ rotateY: 100 }}
+        animate={{ rotateY: isOpening ? 100 : 0 }}
+        transition={transition}
+      >
+        {theme.knob && <span className="absolute left-6 top-1/2 w-5 h-5 rounded-full bg-yellow-300 shadow" />}
+      </motion.div>
+
+      <AnimatePresence>
+        {!isOpening && (
+          <motion.div
+            className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: animate ? 0.2 : 0, delay: animate ? CLOSE_DURATION / 1000 : 0 }}
+          >
+            <motion.div
+              className="text-7xl mb-6"
+              animate={animate ? { y: [0, -16, 0] } : {}}
+              transition={{ duration: 0.8, repeat: Infinity }}
+            >
+              {theme.emoji}
+            </motion.div>
+            <div className="w-48 h-4 bg-white bg-opacity-70 rounded-full overflow-hidden shadow-inner">
+              <motion.div
+                className="h-full bg-yellow-300 rounded-full"
+                animate={{ width: `${progress}%` }}
+                transition={{ duration: animate ? 0.2 : 0 }}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
+
+export default SceneTransition
@@ -0,0 +1,67 @@
+import React from 'react'
+import { motion } from 'framer-motion'
+import { Moon, Settings } from 'lucide-react'
+import { useAppStore } from '../store/appStore'
+
+interface SleepingSceneProps {
+  nextOpening: number | null // when play is allowed again, if known
+}
+
+// Bedtime screen: the world stays asleep until the next allowed play time; only a parent can get past it
+const SleepingScene: React.FC<SleepingSceneProps> = ({ nextOpening }) => {
+  const { updateSettings } = useAppStore()
+
+  const formatOpening = (timestamp: number) => {
+    const time = new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' })
+    const isToday = new Date(timestamp).toDateString() === new Date().toDateString()
+    return isToday ? `今天 ${time}` : `${new Date(timestamp).toLocaleDateString('zh-CN', { weekday: 'long' })} ${time}`
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-indigo-900 via-purple-900 to-indigo-800 relative overflow-hidden flex items-center justify-center">
+      {/* Twinkling stars */}
+      {[...Array(12)].map((_, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-1.5 h-1.5 bg-yellow-100 rounded-full"
+          style={{ left: `${(i * 37) % 100}%`, top: `${(i * 23) % 60}%` }}
+          animate={{ opacity: [0.2, 1, 0.2] }}
+          transition={{ duration: 3, delay: i * 0.3, repeat: Infinity }}
+        />
+      ))}
+
+      <div className="text-center z-10 px-8">
+        <motion.div
+          className="w-24 h-24 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-6 shadow-2xl"
+          animate={{ rotate: [0, -5, 5, 0] }}
+          transition={{ duration: 6, repeat: Infinity }}
+        >
+          <Moon className="w-12 h-12 text-indigo-700" />
+        </motion.div>
+        <h1 className="text-3xl font-bold text-white mb-3">小世界在睡觉</h1>
+        <p className="text-indigo-100 mb-2">小兔兔和小熊熊都睡着了，嘘……</p>
+        {nextOpening && (
+          <p className="text-indigo-200 text-sm">{formatOpening(nextOpening)} 再来玩吧！</p>
+        )}
+        <motion.div
+          className="mt-8 text-4xl"
+          animate={{ y: [0, -6, 0] }}
+          transition={{ duration: 2.5, repeat: Infinity }}
+          aria-hidden="true"
+        >
+          💤
+        </motion.div>
+      </div>
+
+      <button
+        onClick={() => updateSettings({ parentMode: true })}
+        className="absolute top-4 right-4 p-3 rounded-full bg-white bg-opacity-10 text-indigo-100 hover:bg-opacity-20 transition-colors"
+        aria-label="家长设置"
+      >
+        <Settings className="w-5 h-5" />
+      </button>
+    </div>
+  )
+}
+
+export default SleepingScene
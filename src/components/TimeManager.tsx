@@ -1,6 +1,9 @@
 import React, { useEffect, useState, useRef } from 'react'
 import { useAppStore } from '../store/appStore'
-import { handleAudioInteraction } from './AudioManager'
+import { sessionTimer } from '../utils/sessionTimer'
+import { useSessionTimer } from '../hooks/useSessionTimer'
+import { useAppConfig } from '../hooks/useAppConfig'
+import AdultGate from './AdultGate'
 
 interface Position {
   x: number
@@ -14,17 +17,17 @@ interface DragState {
 }
 
 const TimeManager: React.FC = () => {
-  const { 
-    settings, 
-    gameState, 
-    endSession, 
-    updateSettings 
-  } = useAppStore()
-  
-  const [timeRemaining, setTimeRemaining] = useState<number>(settings.dailyTimeLimit * 60 * 1000)
-  const [showWarning, setShowWarning] = useState(false)
-  const [showExitDialog, setShowExitDialog] = useState(false)
-  const [sessionStartTime] = useState<number>(Date.now())
+  const isPlaying = useAppStore(s => s.gameState.isPlaying)
+  // Countdown, warning and exit all come from the shared session timer
+  const { phase, remaining: timeRemaining } = useSessionTimer()
+  const { warningTime, extendTime, windDown } = useAppConfig().timeManagement
+  const warningThreshold = warningTime * 60 * 1000
+  const exitThreshold = 60 * 1000
+  const [isWarningDismissed, setIsWarningDismissed] = useState(false)
+  // With the wind-down flow the scene itself gets sleepy instead of popping up a warning
+  const showWarning = phase === 'warning' && !isWarningDismissed && !windDown.enabled
+  const showExitDialog = phase === 'exit_dialog'
+  const [showExtendGate, setShowExtendGate] = useState(false)
   const [position, setPosition] = useState<Position>({ x: 16, y: 16 }) // 默认右上角位置
   const [dragState, setDragState] = useState<DragState>({
     isDragging: false,
@@ -245,58 +248,18 @@ const TimeManager: React.FC = () => {
     }
   }, [])
 
-  // Original time management logic
+  // A dismissed warning comes back the next time the budget runs low
   useEffect(() => {
-    if (!gameState.isPlaying) return
-
-    const interval = setInterval(() => {
-      const elapsed = Date.now() - sessionStartTime
-      const remaining = Math.max(0, settings.dailyTimeLimit * 60 * 1000 - elapsed)
-      
-      setTimeRemaining(remaining)
-
-      // Show warning when 2 minutes remaining
-      if (remaining <= 2 * 60 * 1000 && remaining > 1 * 60 * 1000 && !showWarning) {
-        setShowWarning(true)
-        handleAudioInteraction('time_warning')
-      }
-
-      // Show exit dialog when 1 minute remaining
-      if (remaining <= 1 * 60 * 1000 && remaining > 0 && !showExitDialog) {
-        setShowExitDialog(true)
-      }
-
-      // Auto exit when time is up
-      if (remaining <= 0) {
-        handleGracefulExit()
-      }
-    }, 1000)
-
-    return () => clearInterval(interval)
-  }, [gameState.isPlaying, settings.dailyTimeLimit, sessionStartTime, showWarning, showExitDialog])
-
-  const handleGracefulExit = () => {
-    handleAudioInteraction('gentle_exit')
-    
-    // Give a moment for the audio to play
-    setTimeout(() => {
-      endSession()
-      // Switch to parent mode after session ends
-      setTimeout(() => {
-        updateSettings({ parentMode: true })
-      }, 1000)
-    }, 2000)
-  }
+    if (phase !== 'warning') setIsWarningDismissed(false)
+  }, [phase])
 
   const handleExtendTime = () => {
-    // Extend by 5 minutes
-    updateSettings({ dailyTimeLimit: settings.dailyTimeLimit + 5 })
-    setShowExitDialog(false)
-    setShowWarning(false)
+    sessionTimer.extend()
+    setShowExtendGate(false)
   }
 
   const handleEndSession = () => {
-    handleGracefulExit()
+    sessionTimer.endNow()
   }
 
   const formatTime = (milliseconds: number) => {
@@ -305,7 +268,7 @@ const TimeManager: React.FC = () => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`
   }
 
-  if (!gameState.isPlaying) return null
+  if (!isPlaying) return null
 
   return (
     <>
@@ -329,22 +292,22 @@ const TimeManager: React.FC = () => {
         aria-label={`游戏时间剩余: ${formatTime(timeRemaining)}`}
       >
         <div className={`bg-white bg-opacity-95 rounded-full px-4 py-2 shadow-lg border-2 transition-all duration-300 ${
-          timeRemaining <= 2 * 60 * 1000 
+          timeRemaining <= warningThreshold 
             ? 'border-yellow-400 bg-yellow-50' 
             : 'border-blue-200'
         }`}>
           <div className="flex items-center gap-2">
             <div className={`w-3 h-3 rounded-full transition-colors ${
-              timeRemaining <= 1 * 60 * 1000 
+              timeRemaining <= exitThreshold 
                 ? 'bg-red-500 animate-pulse' 
-                : timeRemaining <= 2 * 60 * 1000 
+                : timeRemaining <= warningThreshold 
                 ? 'bg-yellow-500' 
                 : 'bg-green-500'
             }`}></div>
             <span className={`font-medium text-sm ${
-              timeRemaining <= 1 * 60 * 1000 
+              timeRemaining <= exitThreshold 
                 ? 'text-red-600' 
-                : timeRemaining <= 2 * 60 * 1000 
+                : timeRemaining <= warningThreshold 
                 ? 'text-yellow-700' 
                 : 'text-gray-700'
             }`}>
@@ -374,12 +337,12 @@ const TimeManager: React.FC = () => {
             </div>
             <h3 className="text-xl font-bold text-gray-800 mb-2">时间提醒</h3>
             <p className="text-gray-600 mb-6">
-              还有2分钟就要结束今天的游戏时间了，
+              还有{warningTime}分钟就要结束今天的游戏时间了，
               要不要再玩一个小游戏呢？
             </p>
             <div className="flex gap-3">
               <button
-                onClick={() => setShowWarning(false)}
+                onClick={() => setIsWarningDismissed(true)}
                 className="flex-1 bg-gray-200 text-gray-700 font-medium py-3 px-4 rounded-xl hover:bg-gray-300 transition-colors touch-manipulation"
               >
                 继续玩
@@ -415,15 +378,24 @@ const TimeManager: React.FC = () => {
                 结束游戏
               </button>
               <button
-                onClick={handleExtendTime}
+                onClick={() => setShowExtendGate(true)}
                 className="w-full bg-blue-500 text-white font-medium py-3 px-4 rounded-xl hover:bg-blue-600 transition-colors touch-manipulation"
               >
-                延长5分钟
+                延长{extendTime}分钟
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Only an adult can extend play time */}
+      {showExtendGate && (
+        <AdultGate
+          title="延长游戏时间"
+          onPass={handleExtendTime}
+          onCancel={() => setShowExtendGate(false)}
+        />
+      )}
     </>
   )
 }
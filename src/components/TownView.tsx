@@ -4,11 +4,14 @@ import { Heart, Home, TreePine, Sparkles, Cloud, Mountain } from 'lucide-react'
 import NavigationBar from './NavigationBar'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ANIMATION_EASING } from '../config/animationConfig'
-import { backgroundAssets, assetManager } from '../config/assetConfig'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
 import '../styles/design-system.css'
 
+const TOWN_BACKGROUNDS = ['garden_sky_bg', 'home_room_bg', 'town_view_bg']
+
 const TownView: React.FC = () => {
-  const { setCurrentScene, recordBehavior, updateSettings } = useAppStore()
+  const { goToScene, recordBehavior, updateSettings } = useAppStore()
   const [hoveredArea, setHoveredArea] = useState<string | null>(null)
   const [animationClass, setAnimationClass] = useState('')
   const [backgroundLayers, setBackgroundLayers] = useState<{
@@ -19,6 +22,7 @@ const TownView: React.FC = () => {
   } | null>(null)
   const [isLoadingBackground, setIsLoadingBackground] = useState(true)
   const [reducedMotion, setReducedMotion] = useState(false)
+  useRetainedAssets(TOWN_BACKGROUNDS)
 
   // Load layered background assets
   useEffect(() => {
@@ -72,10 +76,16 @@ const TownView: React.FC = () => {
       scene: area
     })
     
-    // Navigate to scene after short delay
-    setTimeout(() => {
-      setCurrentScene(area)
-    }, 300)
+    // The scene transition waits for the area's bundle before opening onto it
+    goToScene(area)
+  }
+
+  // Reaching for an area is a good hint of where the child goes next
+  const preloadArea = (area: 'home' | 'garden') => {
+    // Bundles are only known once the manifest has loaded
+    assetManager.ready()
+      .then(() => assetManager.preloadBundle(area))
+      .catch(error => console.warn(`Failed to preload ${area} assets:`, error))
   }
 
   const areas = [
@@ -307,8 +317,19 @@ const TownView: React.FC = () => {
             >
               <motion.div
                 className={`bg-gradient-to-br ${isHovered ? area.hoverColor : area.color} rounded-2xl p-6 cursor-pointer transition-all duration-300 border-2 border-white shadow-lg relative overflow-hidden`}
-                onMouseEnter={() => setHoveredArea(area.id)}
+                role="button"
+                tabIndex={0}
+                aria-label={area.name}
+                onMouseEnter={() => {
+                  setHoveredArea(area.id)
+                  preloadArea(area.id as 'home' | 'garden')
+                }}
                 onMouseLeave={() => setHoveredArea(null)}
+                onFocus={() => preloadArea(area.id as 'home' | 'garden')}
+                onTouchStart={() => preloadArea(area.id as 'home' | 'garden')}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') handleAreaClick(area.id as 'home' | 'garden')
+                }}
                 onClick={() => handleAreaClick(area.id as 'home' | 'garden')}
                 whileHover={{ 
                   scale: 1.08,
@@ -1,11 +1,17 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { assetManager } from '../config/assetConfig'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
+import { LottiePlayer } from './LottiePlayer'
+import type { ToyConfig } from '../config/appConfig'
+import { useSceneConfig } from '../hooks/useAppConfig'
 import { optimizeVariants, shouldEnableAnimations } from '../utils/performance'
 import { ANIMATION_EASING, ANIMATION_TIMING } from '../config/animationConfig'
 
 export type ToyInteraction = 'idle' | 'drag' | 'share' | 'bounce'
 export type ToySize = 'small' | 'medium' | 'large'
+// An SVG that replaces the toy, or a lottie (by asset id) that plays over it
+export type ToyInteractionAsset = string | { type: 'lottie'; data: string }
 
 export interface ToyAsset {
   id: string
@@ -17,38 +23,28 @@ export interface ToyAsset {
   base?: string
   interactions?: {
     drag?: string
-    share?: string
-    bounce?: string | { type: 'lottie'; data: any }
+    share?: ToyInteractionAsset
+    bounce?: ToyInteractionAsset
   }
 }
 
-// 玩具资产配置 - 使用我们创建的SVG文件
-const toyAssets: ToyAsset[] = [
-  {
-    id: 'ball',
-    name: '小球',
-    url: '/assets/toys/ball.svg',
-    type: 'image',
-    category: 'toys',
-    tags: ['colorful', 'bounce', 'play']
-  },
-  {
-    id: 'music_box',
-    name: '音乐盒',
-    url: '/assets/toys/music_box.svg',
-    type: 'image',
-    category: 'toys',
-    tags: ['music', 'elegant', 'melody']
-  },
-  {
-    id: 'gift',
-    name: '礼物',
-    url: '/assets/toys/gift.svg',
-    type: 'image',
-    category: 'toys',
-    tags: ['present', 'surprise', 'sharing']
+// 玩具来自首页场景配置，SVG 取自资产清单中同名的资产
+const toToyAsset = (toy: ToyConfig): ToyAsset => ({
+  id: toy.id,
+  name: toy.name,
+  url: assetManager.getAssetUrl(toy.id),
+  type: 'image',
+  category: 'toys',
+  tags: [toy.sound, toy.interactionType],
+  base: toy.id,
+  interactions: {
+    share: { type: 'lottie', data: 'sparkle_anim' },
+    bounce: { type: 'lottie', data: 'bounce_anim' }
   }
-]
+})
+
+const getLottieId = (asset?: ToyInteractionAsset) =>
+  typeof asset === 'object' && asset.type === 'lottie' ? asset.data : undefined
 
 export interface ToyRendererProps {
   toyId: string
@@ -130,26 +126,26 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
   reducedMotion = false,
   showEffects = true
 }) => {
-  const [toyAsset, setToyAsset] = useState<ToyAsset | null>(null)
   const [currentAsset, setCurrentAsset] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isInteracting, setIsInteracting] = useState(false)
+  // Outlives the interaction itself so a lottie effect can play to its end
+  const [effect, setEffect] = useState<{ interaction: 'share' | 'bounce'; run: number } | null>(null)
 
-  // Find toy asset configuration
-  useEffect(() => {
-    const asset = toyAssets.find(toy => toy.id === toyId)
-    if (asset) {
-      setToyAsset(asset)
-    } else {
-      setError(`Toy asset not found: ${toyId}`)
-      setIsLoading(false)
-    }
-  }, [toyId])
+  // Find toy configuration
+  const { toys } = useSceneConfig('home')
+  const toyConfig = toys.find(toy => toy.id === toyId)
+  const toyAsset = useMemo(() => toyConfig ? toToyAsset(toyConfig) : null, [toyConfig])
+  useRetainedAssets(toyAsset?.base ? [toyAsset.base] : [])
 
   // Load the appropriate asset based on interaction
   useEffect(() => {
-    if (!toyAsset) return
+    if (!toyAsset) {
+      setError(`Toy not found: ${toyId}`)
+      setIsLoading(false)
+      return
+    }
 
     const loadAsset = async () => {
       setIsLoading(true)
@@ -164,26 +160,16 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
         
         if (interaction === 'drag' && toyAsset.interactions?.drag) {
           assetToLoad = toyAsset.interactions.drag
-        } else if (interaction === 'share' && toyAsset.interactions?.share) {
+        } else if (interaction === 'share' && typeof toyAsset.interactions?.share === 'string') {
           assetToLoad = toyAsset.interactions.share
-        } else if (interaction === 'bounce' && toyAsset.interactions?.bounce) {
-          // For bounce, we'll use Lottie animation if available
-          if (typeof toyAsset.interactions.bounce === 'object' && toyAsset.interactions.bounce.type === 'lottie') {
-            try {
-              const lottieData = await assetManager.loadAsset(toyAsset.interactions.bounce.data)
-              setCurrentAsset(JSON.stringify(lottieData))
-              setIsLoading(false)
-              return
-            } catch (lottieError) {
-              console.warn(`Failed to load Lottie animation for ${toyId}, using base asset:`, lottieError)
-            }
-          } else if (typeof toyAsset.interactions.bounce === 'string') {
-            assetToLoad = toyAsset.interactions.bounce
-          }
+        } else if (interaction === 'bounce' && typeof toyAsset.interactions?.bounce === 'string') {
+          assetToLoad = toyAsset.interactions.bounce
         }
+        // Lottie interactions keep the base artwork and play over it (see the effects below)
 
-        // Load SVG asset
-        if (typeof assetToLoad === 'string' && assetToLoad.endsWith('.svg')) {
+        // Load SVG asset by its manifest id; toys without artwork keep their emoji
+        await assetManager.ready()
+        if (typeof assetToLoad === 'string' && assetManager.getAsset(assetToLoad)) {
           try {
             const svgContent = await assetManager.loadAsset(assetToLoad)
             setCurrentAsset(svgContent)
@@ -204,7 +190,7 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
     }
 
     loadAsset()
-  }, [toyAsset, interaction])
+  }, [toyAsset, toyId, interaction])
 
   // Handle interaction effects
   useEffect(() => {
@@ -218,13 +204,14 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
     }
   }, [interaction, reducedMotion])
 
-  const getEmojiFallback = (id: string): string => {
-    const emojiMap: Record<string, string> = {
-      ball: '⚽',
-      music_box: '🎵',
-      gift: '🎁'
+  useEffect(() => {
+    if (interaction === 'share' || interaction === 'bounce') {
+      setEffect(prev => ({ interaction, run: (prev?.run ?? 0) + 1 }))
     }
-    return emojiMap[id] || '🎮'
+  }, [interaction])
+
+  const getEmojiFallback = (id: string): string => {
+    return toys.find(toy => toy.id === id)?.emoji || '🎮'
   }
 
   const handleDragStart = (event: any, info: any) => {
@@ -240,6 +227,43 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
   const containerSize = sizeMap[size]
   const borderColor = interactionColors[interaction]
   const shouldReduceMotion = reducedMotion || isInteracting
+  const effectLottieId = effect ? getLottieId(toyAsset?.interactions?.[effect.interaction]) : undefined
+  // Shown while a lottie loads, or in its place when it cannot play
+  const effectFallback = effect && isInteracting && interaction === effect.interaction && (
+    effect.interaction === 'share' ? (
+      <>
+        {[...Array(3)].map((_, i) => (
+          <motion.div
+            key={i}
+            className="absolute w-1 h-1 bg-pink-400 rounded-full"
+            initial={{ 
+              x: containerSize.width / 2,
+              y: containerSize.height / 2,
+              scale: 0
+            }}
+            animate={{ 
+              x: containerSize.width / 2 + (i - 1) * 20,
+              y: containerSize.height / 2 - 20,
+              scale: [0, 1, 0]
+            }}
+            transition={{ 
+              duration: 0.8,
+              delay: i * 0.1,
+              ease: "easeOut"
+            }}
+          />
+        ))}
+      </>
+    ) : (
+      <motion.div
+        className="absolute -inset-2 bg-yellow-200 opacity-20 rounded-full"
+        initial={{ scale: 0 }}
+        animate={{ scale: 1.2 }}
+        exit={{ scale: 0, opacity: 0 }}
+        transition={{ duration: 0.3 }}
+      />
+    )
+  )
 
   if (isLoading) {
     return (
@@ -255,120 +279,98 @@ export const ToyRenderer: React.FC<ToyRendererProps> = ({
   }
 
   return (
-    <AnimatePresence mode="wait">
-      <motion.div
-        key={`${toyId}-${interaction}`}
-        initial={{ scale: 0.8, opacity: 0 }}
-        animate={{ 
-          scale: 1, 
-          opacity: 1,
-          ...(!shouldReduceMotion ? interactionVariants[interaction] : {})
-        }}
-        exit={{ scale: 0.8, opacity: 0 }}
-        transition={{ 
-          duration: shouldReduceMotion ? 0 : ANIMATION_TIMING.entrance.fast / 1000,
-          ease: 'easeOut'
-        }}
-        className={`asset-container ${className}`}
-        style={{ width: containerSize.width, height: containerSize.height }}
-        onClick={onClick}
-        onDragStart={handleDragStart}
-        onDragEnd={handleDragEnd}
-        draggable={!!onDragStart}
-        role={enableAccessibility ? 'img' : undefined}
-        aria-label={enableAccessibility ? `${toyAsset?.name} - ${interaction}` : undefined}
-        whileHover={onClick && shouldEnableAnimations() ? { 
-          scale: 1.05,
-          transition: { 
-            duration: ANIMATION_TIMING.interaction.fast / 1000,
+    <div className="relative inline-block" style={{ width: containerSize.width, height: containerSize.height }}>
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={`${toyId}-${interaction}`}
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ 
+            scale: 1, 
+            opacity: 1,
+            ...(!shouldReduceMotion ? interactionVariants[interaction] : {})
+          }}
+          exit={{ scale: 0.8, opacity: 0 }}
+          transition={{ 
+            duration: shouldReduceMotion ? 0 : ANIMATION_TIMING.entrance.fast / 1000,
             ease: 'easeOut'
-          }
-        } : {}}
-        whileTap={onClick && shouldEnableAnimations() ? { 
-          scale: 0.95,
-          transition: { 
-            duration: ANIMATION_TIMING.interaction.fast / 1000,
-            ease: 'easeIn'
-          }
-        } : {}}
-      >
-        <div
-          className={`w-full h-full rounded-lg border-2 ${borderColor} bg-white shadow-md flex items-center justify-center overflow-hidden relative`}
+          }}
+          className={`asset-container ${className}`}
+          style={{ width: containerSize.width, height: containerSize.height }}
+          onClick={onClick}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+          draggable={!!onDragStart}
+          role={enableAccessibility ? 'img' : undefined}
+          aria-label={enableAccessibility ? `${toyAsset?.name} - ${interaction}` : undefined}
+          whileHover={onClick && shouldEnableAnimations() ? { 
+            scale: 1.05,
+            transition: { 
+              duration: ANIMATION_TIMING.interaction.fast / 1000,
+              ease: 'easeOut'
+            }
+          } : {}}
+          whileTap={onClick && shouldEnableAnimations() ? { 
+            scale: 0.95,
+            transition: { 
+              duration: ANIMATION_TIMING.interaction.fast / 1000,
+              ease: 'easeIn'
+            }
+          } : {}}
         >
-          {currentAsset.startsWith('<svg') ? (
-            <div
-              dangerouslySetInnerHTML={{ __html: currentAsset }}
-              className="w-full h-full"
-              style={{ 
-                filter: isDragging ? 'brightness(1.1) drop-shadow(0 0 8px rgba(59, 130, 246, 0.5))' : 'none'
-              }}
-            />
-          ) : (
-            <span className="text-xl">{currentAsset}</span>
-          )}
-          
-          {/* Interaction effects */}
-          {showEffects && isInteracting && (
-            <>
-              {interaction === 'share' && (
-                <motion.div
-                  className="absolute inset-0 bg-pink-200 opacity-30 rounded-lg"
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1.5 }}
-                  exit={{ scale: 0, opacity: 0 }}
-                  transition={{ duration: 0.5 }}
-                />
-              )}
-              
-              {interaction === 'bounce' && (
-                <motion.div
-                  className="absolute -inset-2 bg-yellow-200 opacity-20 rounded-full"
-                  initial={{ scale: 0 }}
-                  animate={{ scale: 1.2 }}
-                  exit={{ scale: 0, opacity: 0 }}
-                  transition={{ duration: 0.3 }}
-                />
-              )}
-              
-              {interaction === 'drag' && (
-                <motion.div
-                  className="absolute -inset-1 bg-blue-200 opacity-20 rounded-lg"
-                  animate={{ scale: [1, 1.1, 1] }}
-                  transition={{ duration: 0.5, repeat: Infinity }}
-                />
-              )}
-            </>
-          )}
-        </div>
-        
-        {/* Sparkle effects for special interactions */}
-        {showEffects && interaction === 'share' && isInteracting && (
-          <>
-            {[...Array(3)].map((_, i) => (
-              <motion.div
-                key={i}
-                className="absolute w-1 h-1 bg-pink-400 rounded-full"
-                initial={{ 
-                  x: containerSize.width / 2,
-                  y: containerSize.height / 2,
-                  scale: 0
-                }}
-                animate={{ 
-                  x: containerSize.width / 2 + (i - 1) * 20,
-                  y: containerSize.height / 2 - 20,
-                  scale: [0, 1, 0]
-                }}
-                transition={{ 
-                  duration: 0.8,
-                  delay: i * 0.1,
-                  ease: "easeOut"
+          <div
+            className={`w-full h-full rounded-lg border-2 ${borderColor} bg-white shadow-md flex items-center justify-center overflow-hidden relative`}
+          >
+            {currentAsset.startsWith('<svg') ? (
+              <div
+                dangerouslySetInnerHTML={{ __html: currentAsset }}
+                className="w-full h-full"
+                style={{ 
+                  filter: isDragging ? 'brightness(1.1) drop-shadow(0 0 8px rgba(59, 130, 246, 0.5))' : 'none'
                 }}
               />
-            ))}
-          </>
-        )}
-      </motion.div>
-    </AnimatePresence>
+            ) : (
+              <span className="text-xl">{currentAsset}</span>
+            )}
+            
+            {/* Interaction effects */}
+            {showEffects && isInteracting && (
+              <>
+                {interaction === 'share' && (
+                  <motion.div
+                    className="absolute inset-0 bg-pink-200 opacity-30 rounded-lg"
+                    initial={{ scale: 0 }}
+                    animate={{ scale: 1.5 }}
+                    exit={{ scale: 0, opacity: 0 }}
+                    transition={{ duration: 0.5 }}
+                  />
+                )}
+                
+                {interaction === 'drag' && (
+                  <motion.div
+                    className="absolute -inset-1 bg-blue-200 opacity-20 rounded-lg"
+                    animate={{ scale: [1, 1.1, 1] }}
+                    transition={{ duration: 0.5, repeat: Infinity }}
+                  />
+                )}
+              </>
+            )}
+          </div>
+        </motion.div>
+      </AnimatePresence>
+
+      {/* Share sparkles and the bounce glow: a lottie when one can play, framer-motion otherwise */}
+      {showEffects && effect && (effectLottieId ? (
+        <LottiePlayer
+          key={effect.run}
+          assetId={effectLottieId}
+          loop={false}
+          reducedMotion={reducedMotion}
+          className="absolute -inset-3"
+          fallback={effectFallback}
+          onComplete={() => setEffect(null)}
+        />
+      ) : effectFallback)}
+    </div>
   )
 }
 
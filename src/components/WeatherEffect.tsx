@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { assetManager } from '../config/assetConfig'
+import { assetManager } from '../utils/assetManager'
+import { useRetainedAssets } from '../hooks/useAssetLoader'
 import { optimizeVariants, shouldEnableAnimations, ANIMATION_TIMING } from '../utils/performance'
 
 export interface WeatherEffectProps {
-  type: 'sunny' | 'cloudy' | 'rainy' | 'light-spots'
+  type: 'sunny' | 'cloudy' | 'rainy' | 'light-spots' | 'dusk'
   intensity?: 'light' | 'medium' | 'heavy'
   reducedMotion?: boolean
   className?: string
@@ -42,10 +43,16 @@ export const WeatherEffect: React.FC<WeatherEffectProps> = ({
       assetIds: ['light_spot'],
       particleCount: intensity === 'light' ? 3 : intensity === 'medium' ? 5 : 8,
       animationDuration: reducedMotion ? 6 : 12
+    },
+    dusk: {
+      assetIds: ['light_spot'],
+      particleCount: intensity === 'light' ? 2 : intensity === 'medium' ? 4 : 6,
+      animationDuration: reducedMotion ? 10 : 18
     }
   }
 
   const config = weatherConfig[type]
+  useRetainedAssets(config.assetIds)
 
   // Load weather assets
   useEffect(() => {
@@ -160,7 +167,8 @@ export const WeatherEffect: React.FC<WeatherEffectProps> = ({
       case 'sunny': return sunnyVariants
       case 'cloudy': return cloudVariants
       case 'rainy': return rainVariants
-      case 'light-spots': return lightSpotVariants
+      case 'light-spots':
+      case 'dusk': return lightSpotVariants
       default: return sunnyVariants
     }
   }
@@ -182,7 +190,7 @@ export const WeatherEffect: React.FC<WeatherEffectProps> = ({
     <div 
       className={`absolute inset-0 pointer-events-none ${className}`}
       role="presentation"
-      aria-label={ariaLabel || `${type === 'sunny' ? '阳光' : type === 'cloudy' ? '云朵' : type === 'rainy' ? '雨滴' : '光斑'}天气效果`}
+      aria-label={ariaLabel || `${type === 'sunny' ? '阳光' : type === 'cloudy' ? '云朵' : type === 'rainy' ? '雨滴' : type === 'dusk' ? '暮色' : '光斑'}天气效果`}
     >
       <AnimatePresence>
         {particles.map((particle) => {
@@ -234,6 +242,18 @@ export const WeatherEffect: React.FC<WeatherEffectProps> = ({
         />
       )}
 
+      {type === 'dusk' && (
+        <motion.div
+          className="absolute inset-0 bg-gradient-to-b from-indigo-300 via-purple-200 to-orange-200"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 0.45 }}
+          transition={{
+            duration: reducedMotion ? 0 : 6,
+            ease: "easeInOut"
+          }}
+        />
+      )}
+
       {type === 'rainy' && (
         <motion.div
           className="absolute inset-0 bg-gradient-to-b from-gray-200 to-transparent opacity-30"
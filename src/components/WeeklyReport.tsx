@@ -0,0 +1,197 @@
+import React from 'react'
+import { useAppStore, getInterestLabel, formatPlayTime } from '../store/appStore'
+import { configManager } from '../config/appConfig'
+import { useWeeklyReport } from '../hooks/useWeeklyReport'
+import { REPORT_ACTIONS, ReportAction, ReportHighlight } from '../game/weeklyReport'
+import { WEEKDAY_LABELS } from '../utils/playSchedule'
+import { BarChart3, Clock, Heart, Printer, Sparkles, TrendingUp, TrendingDown } from 'lucide-react'
+
+const ACTION_LABELS: Record<ReportAction, { label: string; color: string }> = {
+  share: { label: '分享', color: 'bg-pink-400' },
+  help: { label: '帮助', color: 'bg-blue-400' },
+  care: { label: '照顾', color: 'bg-green-400' }
+}
+
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return `${date.getMonth() + 1}月${date.getDate()}日`
+}
+
+// Turns 'planted_flower' or 'decorated_ribbon' into words a parent reads
+const describeCreation = (subjectId: string) => {
+  const { decorations, bouquet } = configManager.getConfig().scenes.garden
+  const [verb, ...rest] = subjectId.split('_')
+  const id = rest.join('_')
+  const plantName = configManager.getPlantById(id)?.name ?? id
+
+  switch (verb) {
+    case 'planted':
+      return `种下了${plantName}`
+    case 'harvested':
+      return `收获了${plantName}`
+    case 'decorated':
+      return `用${decorations.find(decoration => decoration.id === id)?.name ?? id}装饰了花园`
+    default:
+      return subjectId === bouquet.itemId ? `扎了一束${bouquet.name}` : `做了${subjectId}`
+  }
+}
+
+const describeHighlight = ({ kind, id }: ReportHighlight) => {
+  const name = configManager.getCharacterById(id)?.name ?? id
+  switch (kind) {
+    case 'share':
+      return `第一次和${name}分享`
+    case 'help':
+      return `第一次帮${name}的忙`
+    case 'create':
+      return `第一次${describeCreation(id)}`
+    default:
+      return id
+  }
+}
+
+// A one-week summary for parents, laid out so the browser can print it or save it as a PDF
+const WeeklyReport: React.FC = () => {
+  const { childProfile } = useAppStore()
+  const report = useWeeklyReport()
+  const maxPlayTime = Math.max(1, ...report.days.map(day => day.playTime))
+  const maxActions = Math.max(1, ...report.days.map(day => REPORT_ACTIONS.reduce((sum, action) => sum + day.counts[action], 0)))
+  const shifts = report.interestShifts.filter(shift => shift.start > 0 || shift.end > 0)
+
+  return (
+    <div className="space-y-6 print-exact">
+      <div className="bg-white rounded-2xl p-6 shadow-lg print:shadow-none print:border print:border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-gray-800">{childProfile.name}的成长周报</h3>
+            <p className="text-gray-600">
+              {formatDate(report.weekStart)} - {formatDate(report.weekEnd)}
+            </p>
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 bg-purple-500 text-white px-4 py-2 rounded-xl hover:bg-purple-600 transition-colors print:hidden"
+          >
+            <Printer className="w-4 h-4" />
+            打印 / 保存PDF
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mt-4">
+          <div className="bg-blue-50 rounded-xl p-3 text-center">
+            <p className="text-sm text-gray-600">本周游戏时间</p>
+            <p className="font-bold text-blue-600">{formatPlayTime(report.totalPlayTime)}</p>
+          </div>
+          <div className="bg-green-50 rounded-xl p-3 text-center">
+            <p className="text-sm text-gray-600">游戏次数</p>
+            <p className="font-bold text-green-600">{report.sessionCount}次</p>
+          </div>
+          <div className="bg-pink-50 rounded-xl p-3 text-center">
+            <p className="text-sm text-gray-600">积极行为</p>
+            <p className="font-bold text-pink-600">
+              {REPORT_ACTIONS.reduce((sum, action) => sum + report.totals[action], 0)}次
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Play minutes per day */}
+      <div className="bg-white rounded-2xl p-6 shadow-lg print:shadow-none print:border print:border-gray-200 break-inside-avoid">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Clock className="w-5 h-5 text-purple-500" />
+          每天游戏时间
+        </h3>
+        <div className="flex items-end justify-between gap-2 h-32">
+          {report.days.map(day => (
+            <div key={day.date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <span className="text-xs text-gray-600">{Math.round(day.playTime / 60000)}分</span>
+              <div
+                className="w-full rounded-t-lg bg-purple-300"
+                style={{ height: `${(day.playTime / maxPlayTime) * 100}%` }}
+              />
+              <span className="text-xs text-gray-500">{WEEKDAY_LABELS[new Date(day.timestamp).getDay()]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Share / help / care per day */}
+      <div className="bg-white rounded-2xl p-6 shadow-lg print:shadow-none print:border print:border-gray-200 break-inside-avoid">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-blue-500" />
+          分享、帮助和照顾
+        </h3>
+        <div className="flex items-end justify-between gap-2 h-32">
+          {report.days.map(day => (
+            <div key={day.date} className="flex-1 flex flex-col items-center gap-1 h-full justify-end">
+              <div className="w-full flex flex-col justify-end" style={{ height: '100%' }}>
+                {REPORT_ACTIONS.map(action => (
+                  <div
+                    key={action}
+                    className={ACTION_LABELS[action].color}
+                    style={{ height: `${(day.counts[action] / maxActions) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <span className="text-xs text-gray-500">{WEEKDAY_LABELS[new Date(day.timestamp).getDay()]}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-4 mt-4 text-sm text-gray-700">
+          {REPORT_ACTIONS.map(action => (
+            <span key={action} className="flex items-center gap-1">
+              <span className={`w-3 h-3 rounded-full ${ACTION_LABELS[action].color}`} />
+              {ACTION_LABELS[action].label} {report.totals[action]}次
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* How interests moved over the week */}
+      <div className="bg-white rounded-2xl p-6 shadow-lg print:shadow-none print:border print:border-gray-200 break-inside-avoid">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Heart className="w-5 h-5 text-pink-500" />
+          兴趣变化
+        </h3>
+        {shifts.length > 0 ? (
+          <div className="space-y-2">
+            {shifts.map(shift => (
+              <div key={shift.category} className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                <span className="font-medium">{getInterestLabel(shift.category)}</span>
+                <span className="flex items-center gap-2 text-sm text-gray-600">
+                  {Math.round(shift.start)} → {Math.round(shift.end)}
+                  {shift.change > 0 && <TrendingUp className="w-4 h-4 text-green-500" aria-label="这周更喜欢了" />}
+                  {shift.change < 0 && <TrendingDown className="w-4 h-4 text-gray-400" aria-label="这周玩得少了" />}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-4">这周还没有足够的游戏记录</p>
+        )}
+      </div>
+
+      {/* Firsts worth celebrating */}
+      <div className="bg-yellow-50 rounded-2xl p-6 break-inside-avoid">
+        <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-yellow-500" />
+          本周亮点
+        </h3>
+        {report.highlights.length > 0 ? (
+          <ul className="space-y-2">
+            {report.highlights.map(highlight => (
+              <li key={highlight.key} className="flex items-center justify-between text-gray-700">
+                <span>🎉 {describeHighlight(highlight)}</span>
+                <span className="text-sm text-gray-500">{formatDate(highlight.timestamp)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-500">这周没有新的“第一次”，继续一起玩吧！</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default WeeklyReport
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useAppStore } from '../store/appStore'
+import { sessionTimer } from '../utils/sessionTimer'
+import { useSessionTimer, useIsWindingDown } from '../hooks/useSessionTimer'
+import { useAppConfig } from '../hooks/useAppConfig'
+import { speakTextDirectly } from './AudioManager'
+import type { GoodnightAction } from '../config/appConfig'
+
+const GOODNIGHT_DELAY = 2500 // lets the goodnight line play before the world goes to bed
+
+// The last stretch of play: invites the child to one goodnight ritual, which then ends the day
+const WindDownPrompt: React.FC = () => {
+  const { garden, waterPlant, recordBehavior } = useAppStore()
+  const { phase } = useSessionTimer()
+  const isWindingDown = useIsWindingDown()
+  const { goodnightActions } = useAppConfig().timeManagement.windDown
+  const [doneAction, setDoneAction] = useState<GoodnightAction | null>(null)
+  const goodnightTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (goodnightTimer.current) clearTimeout(goodnightTimer.current)
+    }
+  }, [])
+
+  const sayGoodnight = (action: GoodnightAction) => {
+    if (doneAction) return
+    setDoneAction(action)
+
+    if (action.kind === 'water_plants') {
+      garden.plots.filter(plot => plot.stage !== 'empty').forEach(plot => waterPlant(plot.id))
+      recordBehavior({ action: 'care', scene: 'garden', object: action.id })
+    } else {
+      recordBehavior({ action: 'care', scene: 'home', object: action.characterId ?? action.id })
+    }
+    speakTextDirectly(action.message, 'high')
+
+    goodnightTimer.current = setTimeout(() => sessionTimer.sayGoodnight(), GOODNIGHT_DELAY)
+  }
+
+  if (!isWindingDown && !doneAction) return null
+
+  // Until time is up this is a gentle banner the child can play on under; the goodnight
+  // ritual ends the day, so it only appears once the time is really up
+  const isTimeUp = phase === 'expired'
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className={isTimeUp || doneAction
+          ? 'fixed inset-0 bg-indigo-900 bg-opacity-60 flex items-center justify-center z-50'
+          : 'fixed top-20 left-1/2 -translate-x-1/2 z-40 pointer-events-none'}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      >
+        <div className="bg-white bg-opacity-95 rounded-3xl p-6 max-w-sm mx-4 text-center shadow-2xl">
+          {doneAction ? (
+            <>
+              <motion.div
+                className="text-5xl mb-3"
+                animate={{ scale: [1, 1.2, 1] }}
+                transition={{ duration: 1.5, repeat: Infinity }}
+              >
+                {doneAction.emoji}
+              </motion.div>
+              <p className="text-lg font-bold text-gray-800">{doneAction.message}</p>
+            </>
+          ) : !isTimeUp ? (
+            <>
+              <p className="text-lg font-bold text-gray-800 mb-1">🌙 天快黑啦</p>
+              <p className="text-sm text-gray-600">再玩一会儿，就要和小伙伴们说晚安了</p>
+            </>
+          ) : (
+            <>
+              <p className="text-lg font-bold text-gray-800 mb-1">🌙 该睡觉啦</p>
+              <p className="text-sm text-gray-600 mb-4">和小伙伴们说声晚安吧</p>
+              <div className="flex gap-3 justify-center">
+                {goodnightActions.map(action => (
+                  <button
+                    key={action.id}
+                    onClick={() => sayGoodnight(action)}
+                    className="flex flex-col items-center gap-1 px-4 py-3 rounded-2xl bg-indigo-50 hover:bg-indigo-100 transition-colors touch-manipulation"
+                    style={{ minWidth: '96px', minHeight: '48px' }}
+                  >
+                    <span className="text-3xl">{action.emoji}</span>
+                    <span className="text-sm font-medium text-indigo-700">{action.label}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
+
+export default WindDownPrompt
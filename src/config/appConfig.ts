@@ -34,6 +34,11 @@ export interface AppConfig {
     warningTime: number // minutes before end
     extendTime: number // minutes for extension
     autoExitDelay: number // milliseconds
+    windDown: {
+      enabled: boolean // from warningTime on, the world gets sleepy and ends with a goodnight ritual
+      goodnightTimeout: number // milliseconds after time is up before goodnight is said for the child
+      goodnightActions: GoodnightAction[]
+    }
   }
   
   // Behavior tracking
@@ -41,8 +46,12 @@ export interface AppConfig {
     enabled: boolean
     maxBehaviorsStored: number
     interestCalculationWindow: number // number of behaviors to consider
-    interestDecayRate: number
+    interestDecayRate: number // score multiplier per day of age
+    interestRules: InterestRule[]
   }
+
+  // Co-play activities suggested to parents, ranked by game/suggestionEngine
+  parentSuggestions: SuggestionConfig[]
   
   // Visual settings
   visual: {
@@ -57,6 +66,35 @@ export interface AppConfig {
   }
 }
 
+// Maps logged behaviour onto interest categories; every matching rule adds its weights
+export interface InterestRule {
+  scene?: 'home' | 'garden' | 'town'
+  action?: 'share' | 'reconcile' | 'help' | 'care' | 'explore' | 'create' | 'play'
+  object?: string // prefix of the behaviour's object, e.g. 'music_box' or 'watered_'
+  weights: Partial<Record<'music' | 'hands_on' | 'care' | 'social' | 'exploration', number>>
+}
+
+export interface SuggestionConfig {
+  id: string
+  title: string
+  description: string
+  activity: string
+  ageRange: [number, number] // years, inclusive
+  interests: Array<keyof InterestRule['weights']> // empty for activities that suit every child
+  requiredBehaviors?: Partial<Record<NonNullable<InterestRule['action']>, number>> // minimum counts over the last week
+  materials: string[]
+  duration: number // minutes
+}
+
+export interface GoodnightAction {
+  id: string
+  kind: 'tuck_in' | 'water_plants'
+  characterId?: string // who gets tucked in
+  label: string
+  emoji: string
+  message: string // spoken once the action is done
+}
+
 export interface TownConfig {
   welcomeMessage: string
   sceneDescriptions: {
@@ -72,23 +110,54 @@ export interface HomeConfig {
   toys: ToyConfig[]
   sharingMessages: string[]
   interactionPrompts: string[]
+  helpTasks: HelpTaskConfig[]
   backgroundElements: BackgroundElement[]
 }
 
+// A small chore a friend asks the child to help with
+export interface HelpTaskConfig {
+  id: string
+  kind: 'tidy_toys' | 'carry_item' // drop toys into this spot, or carry this item to the character
+  characterId: string // who is being helped
+  name: string
+  emoji: string
+  position: ScenePosition
+  request: string // spoken when the child touches the task
+  thanks: string
+}
+
 export interface GardenConfig {
   plants: PlantConfig[]
   seeds: SeedConfig[]
   growthMessages: string[]
   careMessages: string[]
+  decorations: DecorationConfig[]
+  bouquet: BouquetConfig
   backgroundElements: BackgroundElement[]
 }
 
+export interface DecorationConfig {
+  id: string
+  name: string
+  emoji: string
+}
+
+// Harvested flowers can be arranged into a bouquet to give away at home
+export interface BouquetConfig {
+  produceId: string // which produce goes into it
+  size: number
+  itemId: string
+  name: string
+  emoji: string
+}
+
 export interface CharacterConfig {
   id: string
   name: string
   emoji: string
   color: string
-  personality: 'friendly' | 'shy' | 'playful' | 'helpful'
+  personality: CharacterPersonality
+  position: ScenePosition // where the character stands in the scene, in px
   responses: {
     share: string[]
     click: string[]
@@ -96,6 +165,8 @@ export interface CharacterConfig {
   }
 }
 
+export type CharacterPersonality = 'friendly' | 'shy' | 'playful' | 'helpful'
+
 export interface ToyConfig {
   id: string
   name: string
@@ -103,6 +174,12 @@ export interface ToyConfig {
   color: string
   sound: string
   interactionType: 'drag' | 'click' | 'both'
+  position: ScenePosition
+}
+
+export interface ScenePosition {
+  x: number
+  y: number
 }
 
 export interface PlantConfig {
@@ -114,6 +191,15 @@ export interface PlantConfig {
     waterFrequency: number // milliseconds
     growthTime: number // milliseconds per stage
   }
+  harvest: HarvestConfig
+}
+
+export interface HarvestConfig {
+  produceId: string
+  produceName: string
+  produceEmoji: string
+  produceCount: number
+  seedCount: number // seeds returned to the seed tray
 }
 
 export interface SeedConfig {
@@ -223,6 +309,7 @@ export const defaultConfig: AppConfig = {
           emoji: '🐰',
           color: 'bg-pink-200',
           personality: 'friendly',
+          position: { x: 200, y: 300 },
           responses: {
             share: ['谢谢你！我好开心！', '我们一起玩吧！', '你真好！'],
             click: ['你好呀！', '我是小兔兔！', '要一起玩吗？'],
@@ -234,19 +321,22 @@ export const defaultConfig: AppConfig = {
           name: '小熊熊',
           emoji: '🐻',
           color: 'bg-amber-200',
-          personality: 'playful',
+          personality: 'shy',
+          position: { x: 400, y: 250 },
+          // Shy friends walk through their responses in order as they warm up
           responses: {
-            share: ['哇！太棒了！', '我最喜欢玩具了！', '我们一起分享！'],
-            click: ['嗨！', '我是小熊熊！', '我喜欢玩！'],
+            share: ['嗯...谢谢你', '我...我很喜欢！', '哇！太棒了！我们一起分享！'],
+            click: ['...你好', '嗨，我是小熊熊', '嗨！我喜欢和你玩！'],
             ignore: ['我有点无聊...', '玩具在哪里？', '我想玩！']
           }
         },
         {
-          id: 'parent',
-          name: '爸爸妈妈',
-          emoji: '👨‍👩‍👧‍👦',
+          id: 'parent_mom',
+          name: '妈妈',
+          emoji: '👩',
           color: 'bg-blue-200',
           personality: 'helpful',
+          position: { x: 100, y: 200 },
           responses: {
             share: ['你真棒！', '分享是很好的行为！', '我为你骄傲！'],
             click: ['我在这里支持你', '需要帮忙吗？', '你真聪明！'],
@@ -261,7 +351,8 @@ export const defaultConfig: AppConfig = {
           emoji: '⚽',
           color: 'bg-yellow-300',
           sound: 'bounce',
-          interactionType: 'drag'
+          interactionType: 'drag',
+          position: { x: 150, y: 400 }
         },
         {
           id: 'music_box',
@@ -269,7 +360,8 @@ export const defaultConfig: AppConfig = {
           emoji: '🎵',
           color: 'bg-purple-300',
           sound: 'music',
-          interactionType: 'click'
+          interactionType: 'click',
+          position: { x: 300, y: 450 }
         },
         {
           id: 'gift',
@@ -277,7 +369,8 @@ export const defaultConfig: AppConfig = {
           emoji: '🎁',
           color: 'bg-red-300',
           sound: 'surprise',
-          interactionType: 'both'
+          interactionType: 'both',
+          position: { x: 450, y: 380 }
         }
       ],
       sharingMessages: [
@@ -293,6 +386,28 @@ export const defaultConfig: AppConfig = {
         '把玩具给朋友看看吧！',
         '我们一起分享玩具吧！'
       ],
+      helpTasks: [
+        {
+          id: 'tidy_toys',
+          kind: 'tidy_toys',
+          characterId: 'bear',
+          name: '玩具箱',
+          emoji: '📦',
+          position: { x: 620, y: 250 },
+          request: '小熊熊：玩具到处都是，可以帮我放回箱子里吗？',
+          thanks: '谢谢你帮我收拾玩具！'
+        },
+        {
+          id: 'carry_basket',
+          kind: 'carry_item',
+          characterId: 'parent_mom',
+          name: '菜篮子',
+          emoji: '🧺',
+          position: { x: 40, y: 470 },
+          request: '妈妈：可以帮我把菜篮子拿过来吗？',
+          thanks: '谢谢宝宝帮妈妈拿东西！'
+        }
+      ],
       backgroundElements: [
         {
           id: 'room_wall',
@@ -317,11 +432,19 @@ export const defaultConfig: AppConfig = {
             { stage: 'seed', emoji: '🌱', size: { width: 16, height: 16 }, color: 'bg-green-600' },
             { stage: 'sprout', emoji: '🌱', size: { width: 16, height: 24 }, color: 'bg-green-500' },
             { stage: 'small', emoji: '🌿', size: { width: 24, height: 32 }, color: 'bg-green-400' },
-            { stage: 'flowering', emoji: '🌸', size: { width: 32, height: 40 }, color: 'bg-pink-400' }
+            { stage: 'flowering', emoji: '🌸', size: { width: 32, height: 40 }, color: 'bg-pink-400' },
+            { stage: 'mature', emoji: '🌻', size: { width: 32, height: 48 }, color: 'bg-yellow-400' }
           ],
           careRequirements: {
             waterFrequency: 10000, // 10 seconds for demo
             growthTime: 5000 // 5 seconds per stage
+          },
+          harvest: {
+            produceId: 'flower_bunch',
+            produceName: '小花束',
+            produceEmoji: '💐',
+            produceCount: 1,
+            seedCount: 2
           }
         },
         {
@@ -332,11 +455,19 @@ export const defaultConfig: AppConfig = {
             { stage: 'seed', emoji: '🌰', size: { width: 16, height: 16 }, color: 'bg-amber-600' },
             { stage: 'sprout', emoji: '🌱', size: { width: 16, height: 24 }, color: 'bg-green-500' },
             { stage: 'small', emoji: '🌳', size: { width: 24, height: 32 }, color: 'bg-green-600' },
-            { stage: 'flowering', emoji: '🌳', size: { width: 32, height: 48 }, color: 'bg-green-700' }
+            { stage: 'flowering', emoji: '🌳', size: { width: 32, height: 48 }, color: 'bg-green-700' },
+            { stage: 'mature', emoji: '🍎', size: { width: 32, height: 48 }, color: 'bg-red-400' }
           ],
           careRequirements: {
             waterFrequency: 15000,
             growthTime: 8000
+          },
+          harvest: {
+            produceId: 'apple',
+            produceName: '苹果',
+            produceEmoji: '🍎',
+            produceCount: 2,
+            seedCount: 1
           }
         },
         {
@@ -347,11 +478,19 @@ export const defaultConfig: AppConfig = {
             { stage: 'seed', emoji: '🌱', size: { width: 16, height: 16 }, color: 'bg-green-600' },
             { stage: 'sprout', emoji: '🌱', size: { width: 16, height: 24 }, color: 'bg-green-500' },
             { stage: 'small', emoji: '🥬', size: { width: 24, height: 32 }, color: 'bg-green-400' },
-            { stage: 'flowering', emoji: '🥕', size: { width: 32, height: 40 }, color: 'bg-orange-400' }
+            { stage: 'flowering', emoji: '🥕', size: { width: 32, height: 40 }, color: 'bg-orange-400' },
+            { stage: 'mature', emoji: '🥕', size: { width: 32, height: 48 }, color: 'bg-orange-500' }
           ],
           careRequirements: {
             waterFrequency: 12000,
             growthTime: 6000
+          },
+          harvest: {
+            produceId: 'carrot',
+            produceName: '胡萝卜',
+            produceEmoji: '🥕',
+            produceCount: 1,
+            seedCount: 2
           }
         }
       ],
@@ -386,7 +525,8 @@ export const defaultConfig: AppConfig = {
         '植物在慢慢长大，需要耐心等待哦！',
         '看！植物长高了！',
         '太棒了！植物开花了！',
-        '植物需要持续的照顾才能茁壮成长！'
+        '植物需要持续的照顾才能茁壮成长！',
+        '果实成熟了！快来收获吧！'
       ],
       careMessages: [
         '给植物浇水了！植物会很开心的！',
@@ -395,6 +535,18 @@ export const defaultConfig: AppConfig = {
         '浇水让植物更健康！',
         '定期浇水很重要哦！'
       ],
+      decorations: [
+        { id: 'ribbon', name: '蝴蝶结', emoji: '🎀' },
+        { id: 'pebbles', name: '小石子', emoji: '🪨' },
+        { id: 'butterfly', name: '小蝴蝶', emoji: '🦋' }
+      ],
+      bouquet: {
+        produceId: 'flower_bunch',
+        size: 3,
+        itemId: 'bouquet',
+        name: '花束',
+        emoji: '💐'
+      },
       backgroundElements: [
         {
           id: 'garden_sky',
@@ -456,15 +608,168 @@ export const defaultConfig: AppConfig = {
     defaultSessionLimit: 15, // minutes
     warningTime: 2, // minutes before end
     extendTime: 5, // minutes for extension
-    autoExitDelay: 2000 // milliseconds
+    autoExitDelay: 2000, // milliseconds
+    windDown: {
+      enabled: true,
+      goodnightTimeout: 60000, // milliseconds
+      goodnightActions: [
+        {
+          id: 'tuck_in_bunny',
+          kind: 'tuck_in',
+          characterId: 'bunny',
+          label: '给小兔兔盖被子',
+          emoji: '🐰',
+          message: '小兔兔盖好被子啦，晚安！'
+        },
+        {
+          id: 'water_plants',
+          kind: 'water_plants',
+          label: '再给小花浇一次水',
+          emoji: '💧',
+          message: '小花们喝饱了水，晚安！'
+        }
+      ]
+    }
   },
   
   behaviorTracking: {
     enabled: true,
     maxBehaviorsStored: 100,
-    interestCalculationWindow: 20,
-    interestDecayRate: 0.9
+    interestCalculationWindow: 100,
+    interestDecayRate: 0.9,
+    interestRules: [
+      { action: 'share', weights: { social: 1, care: 0.5 } },
+      { action: 'reconcile', weights: { social: 1, care: 0.5 } },
+      { action: 'help', weights: { social: 1, care: 0.5 } },
+      { action: 'care', weights: { care: 1 } },
+      { action: 'explore', weights: { exploration: 1 } },
+      { action: 'create', weights: { hands_on: 1 } },
+      { action: 'play', weights: { hands_on: 0.5 } },
+      { scene: 'home', action: 'share', weights: { social: 0.5 } },
+      { scene: 'home', action: 'reconcile', weights: { social: 0.5 } },
+      { scene: 'home', action: 'help', weights: { social: 0.5 } },
+      { scene: 'garden', action: 'care', weights: { care: 0.5, hands_on: 0.3 } },
+      // Anything done with the music box counts towards music, whether played with or shared
+      { object: 'music_box', weights: { music: 1.5 } },
+      { action: 'play', object: 'ball', weights: { exploration: 0.5 } }
+    ]
   },
+
+  parentSuggestions: [
+    {
+      id: 'kitchen_band',
+      title: '音乐探索',
+      description: '这几天宝宝很喜欢音乐，可以一起制作简单的打击乐器，比如用筷子和碗做鼓。',
+      activity: '家庭音乐会',
+      ageRange: [2, 4],
+      interests: ['music'],
+      materials: ['筷子', '不同大小的碗', '装了豆子的瓶子'],
+      duration: 15
+    },
+    {
+      id: 'sing_and_move',
+      title: '跟着儿歌动起来',
+      description: '放一首宝宝熟悉的儿歌，音乐快就跳、音乐慢就走，音乐停下来就一起变成木头人。',
+      activity: '音乐木头人',
+      ageRange: [2, 3],
+      interests: ['music', 'exploration'],
+      materials: ['儿歌音乐'],
+      duration: 10
+    },
+    {
+      id: 'block_building',
+      title: '动手创作',
+      description: '宝宝表现出对动手活动的兴趣，可以一起玩积木、拼图或者做手工。',
+      activity: '创意手工时间',
+      ageRange: [2, 4],
+      interests: ['hands_on'],
+      materials: ['积木', '简单拼图'],
+      duration: 20
+    },
+    {
+      id: 'real_bouquet',
+      title: '做一束真的花束',
+      description: '宝宝在花园里扎过花束，可以一起捡些落叶和小花，用丝带扎起来送给家人。',
+      activity: '送给家人的花束',
+      ageRange: [3, 4],
+      interests: ['hands_on', 'care'],
+      requiredBehaviors: { create: 3 },
+      materials: ['落叶和小花', '丝带或毛线', '儿童剪刀'],
+      duration: 20
+    },
+    {
+      id: 'plant_care',
+      title: '照顾体验',
+      description: '宝宝喜欢照顾和关怀，可以一起照顾家里的植物或宠物，培养责任感。',
+      activity: '小小护理员',
+      ageRange: [2, 4],
+      interests: ['care'],
+      materials: ['小水壶', '一盆好养的植物'],
+      duration: 10
+    },
+    {
+      id: 'sprout_a_bean',
+      title: '种一颗真的种子',
+      description: '宝宝在花园里经常浇水，可以在湿纸巾上种几颗豆子，每天一起看看它长高了没有。',
+      activity: '豆芽观察日记',
+      ageRange: [3, 4],
+      interests: ['care', 'exploration'],
+      requiredBehaviors: { care: 5 },
+      materials: ['绿豆或黄豆', '湿纸巾', '透明杯子'],
+      duration: 10
+    },
+    {
+      id: 'playdate',
+      title: '社交互动',
+      description: '宝宝喜欢与人互动，可以安排与其他小朋友的游戏时间，或者角色扮演游戏。',
+      activity: '朋友聚会',
+      ageRange: [2, 4],
+      interests: ['social'],
+      materials: ['几件可以轮流玩的玩具'],
+      duration: 30
+    },
+    {
+      id: 'little_helper',
+      title: '家里的小帮手',
+      description: '宝宝在游戏里很愿意帮忙，可以请TA帮忙收玩具、摆碗筷，做完后具体地夸一夸。',
+      activity: '小帮手时间',
+      ageRange: [2, 4],
+      interests: ['social', 'care'],
+      requiredBehaviors: { help: 2 },
+      materials: ['玩具收纳箱'],
+      duration: 10
+    },
+    {
+      id: 'nature_walk',
+      title: '探索发现',
+      description: '宝宝充满好奇心，可以到公园探索自然，观察小动物和植物。',
+      activity: '自然探索之旅',
+      ageRange: [2, 4],
+      interests: ['exploration'],
+      materials: ['放大镜', '装宝贝的小袋子'],
+      duration: 30
+    },
+    {
+      id: 'daily_sharing',
+      title: '日常分享',
+      description: '在日常生活中多鼓励宝宝分享玩具和食物，强化分享带来的快乐体验。',
+      activity: '分享时刻',
+      ageRange: [2, 4],
+      interests: [],
+      materials: ['一份可以分着吃的水果'],
+      duration: 5
+    },
+    {
+      id: 'feelings_book',
+      title: '情感表达',
+      description: '通过绘本、歌曲等方式帮助宝宝理解和表达不同的情感。',
+      activity: '情感小课堂',
+      ageRange: [2, 4],
+      interests: [],
+      materials: ['关于情绪的绘本'],
+      duration: 15
+    }
+  ],
   
   visual: {
     theme: 'light',
@@ -1,19 +1,10 @@
 import Phaser from 'phaser'
+import { useAppStore } from '../store/appStore'
+import { configManager } from '../config/appConfig'
+import { GardenPlot, isPlantThirsty, canPlant } from './gardenSimulation'
 
-type PlantStage = 'empty' | 'seed' | 'sprout' | 'small' | 'flowering'
-
-type PlantPlot = {
-  id: string
-  x: number
-  y: number
-  stage: PlantStage
-  plantedTime: number
-  lastWatered: number
-  type: 'flower' | 'tree' | 'vegetable'
-}
-
+// Renders the shared garden simulation held in useAppStore; plot positions are laid out by index
 export default class FarmScene extends Phaser.Scene {
-  private plots: PlantPlot[] = []
   private plotGraphics: Map<string, Phaser.GameObjects.Container> = new Map()
   private tool: 'seed' | 'water' | null = null
 
@@ -44,17 +35,14 @@ export default class FarmScene extends Phaser.Scene {
     toolbar.add([seedBtn, waterBtn])
 
     const baseY = h - 140
-    this.plots = [
-      { id: 'plot1', x: w / 2 - 160, y: baseY, stage: 'empty', plantedTime: 0, lastWatered: 0, type: 'flower' },
-      { id: 'plot2', x: w / 2, y: baseY, stage: 'empty', plantedTime: 0, lastWatered: 0, type: 'tree' },
-      { id: 'plot3', x: w / 2 + 160, y: baseY, stage: 'empty', plantedTime: 0, lastWatered: 0, type: 'vegetable' }
-    ]
-
-    this.plots.forEach(plot => {
-      const container = this.add.container(plot.x, plot.y)
+    const plots = useAppStore.getState().garden.plots
+    const firstX = w / 2 - ((plots.length - 1) * 160) / 2
+
+    plots.forEach((plot, index) => {
+      const container = this.add.container(firstX + index * 160, baseY)
       const soil = this.add.rectangle(0, 0, 80, 60, 0xfcd34d).setStrokeStyle(2, 0xf59e0b)
       soil.setInteractive({ useHandCursor: true })
-      soil.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.onPlotClick(plot, pointer))
+      soil.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.onPlotClick(plot.id, pointer))
       const plantIcon = this.add.text(0, -36, '', { fontFamily: 'system-ui, sans-serif', fontSize: '24px' }).setOrigin(0.5)
       const statusDot = this.add.circle(0, 40, 5, 0x9ca3af)
       const statusText = this.add.text(0, 56, '', { fontFamily: 'system-ui, sans-serif', fontSize: '12px', color: '#374151' }).setOrigin(0.5)
@@ -63,43 +51,63 @@ export default class FarmScene extends Phaser.Scene {
       this.renderPlot(plot)
     })
 
+    const unsubscribe = useAppStore.subscribe((state, previousState) => {
+      if (state.garden !== previousState.garden) this.renderGarden()
+    })
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, unsubscribe)
+
     this.time.addEvent({ delay: 1000, loop: true, callback: () => this.tickGrowth() })
   }
 
-  private onPlotClick(plot: PlantPlot, pointer: Phaser.Input.Pointer): void {
+  private onPlotClick(plotId: string, pointer: Phaser.Input.Pointer): void {
+    const { garden, plantSeed, waterPlant, harvestPlant, recordBehavior } = useAppStore.getState()
+    const plot = garden.plots.find(p => p.id === plotId)
+    if (!plot) return
+
+    if (plot.stage === 'mature') {
+      const harvest = harvestPlant(plot.id)
+      if (harvest) {
+        recordBehavior({ action: 'create', scene: 'garden', object: `harvested_${harvest.plantType}` })
+        this.showFeedback(`收获了${harvest.produceEmoji}`, pointer.worldX, pointer.worldY)
+      }
+      return
+    }
+    if (this.tool === 'seed' && plot.stage === 'empty' && !canPlant(garden, plot.plantType)) {
+      this.showFeedback('种子用完了', pointer.worldX, pointer.worldY)
+      return
+    }
     if (this.tool === 'seed' && plot.stage === 'empty') {
-      plot.stage = 'seed'
-      plot.plantedTime = this.time.now
-      this.renderPlot(plot)
+      plantSeed(plot.id, plot.plantType)
+      recordBehavior({ action: 'create', scene: 'garden', object: `planted_${plot.plantType}` })
       this.showFeedback('种下了种子', pointer.worldX, pointer.worldY)
       return
     }
     if (this.tool === 'water' && plot.stage !== 'empty') {
-      plot.lastWatered = this.time.now
-      this.renderPlot(plot)
+      waterPlant(plot.id)
+      recordBehavior({ action: 'care', scene: 'garden', object: `watered_${plot.plantType}` })
       this.showFeedback('给植物浇水了', pointer.worldX, pointer.worldY)
       return
     }
     if (plot.stage === 'empty') {
       this.showFeedback('这里需要种子', pointer.worldX, pointer.worldY)
+    } else if (isPlantThirsty(plot, Date.now())) {
+      this.showFeedback('植物有点渴了', pointer.worldX, pointer.worldY)
     } else {
       this.showFeedback('植物看起来很开心', pointer.worldX, pointer.worldY)
     }
   }
 
   private tickGrowth(): void {
-    this.plots = this.plots.map(p => {
-      if (p.stage === 'empty') return p
-      const elapsed = this.time.now - p.plantedTime
-      if (p.stage === 'seed' && elapsed > 5000) return { ...p, stage: 'sprout' }
-      if (p.stage === 'sprout' && elapsed > 15000) return { ...p, stage: 'small' }
-      if (p.stage === 'small' && elapsed > 30000) return { ...p, stage: 'flowering' }
-      return p
-    })
-    this.plots.forEach(plot => this.renderPlot(plot))
+    useAppStore.getState().updateGardenGrowth()
+    // Re-render even without a stage change so the thirsty status follows the clock
+    this.renderGarden()
   }
 
-  private renderPlot(plot: PlantPlot): void {
+  private renderGarden(): void {
+    useAppStore.getState().garden.plots.forEach(plot => this.renderPlot(plot))
+  }
+
+  private renderPlot(plot: GardenPlot): void {
     const container = this.plotGraphics.get(plot.id)
     if (!container) return
     const plantIcon = container.getAt(1) as Phaser.GameObjects.Text
@@ -109,13 +117,23 @@ export default class FarmScene extends Phaser.Scene {
     let icon = ''
     if (plot.stage === 'seed') icon = '🌱'
     if (plot.stage === 'sprout') icon = '🌱'
-    if (plot.stage === 'small') icon = plot.type === 'flower' ? '🌿' : plot.type === 'tree' ? '🌳' : '🥬'
-    if (plot.stage === 'flowering') icon = plot.type === 'flower' ? '🌸' : plot.type === 'tree' ? '🌳' : '🥕'
+    if (plot.stage === 'small') icon = plot.plantType === 'flower' ? '🌿' : plot.plantType === 'tree' ? '🌳' : '🥬'
+    if (plot.stage === 'flowering') icon = plot.plantType === 'flower' ? '🌸' : plot.plantType === 'tree' ? '🌳' : '🥕'
+    if (plot.stage === 'mature') icon = configManager.getPlantById(plot.plantType)?.harvest.produceEmoji ?? '🍓'
     plantIcon.setText(icon)
 
-    const wateredRecently = this.time.now - plot.lastWatered < 10000
-    statusDot.setFillStyle(wateredRecently ? 0x60a5fa : 0x9ca3af)
-    statusText.setText(wateredRecently ? '已浇水' : '需要水')
+    if (plot.stage === 'mature') {
+      plantIcon.setAngle(0)
+      statusDot.setFillStyle(0xf59e0b)
+      statusText.setText('可以收获')
+      return
+    }
+
+    // Thirsty plants droop gently instead of wilting away
+    const thirsty = plot.stage === 'empty' || isPlantThirsty(plot, Date.now())
+    plantIcon.setAngle(thirsty ? -12 : 0)
+    statusDot.setFillStyle(thirsty ? 0x9ca3af : 0x60a5fa)
+    statusText.setText(thirsty ? '需要水' : '已浇水')
   }
 
   private makeButton(text: string, x: number, y: number, color: number, onClick: () => void): Phaser.GameObjects.Container {
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCharacterMemory,
+  getCurrentWarmth,
+  passOverCharacter,
+  respondToInteraction,
+  type CharacterMemory
+} from '../characterBehavior'
+import type { CharacterConfig, CharacterPersonality } from '../../config/appConfig'
+
+describe('characterBehavior', () => {
+  const start = 1_700_000_000_000
+  const responses: CharacterConfig['responses'] = {
+    share: ['a', 'b', 'c'],
+    click: ['hi', 'hello', 'hey'],
+    ignore: ['...']
+  }
+  const shy = { personality: 'shy' as CharacterPersonality, responses }
+  const friendly = { personality: 'friendly' as CharacterPersonality, responses }
+
+  const shareTimes = (character: typeof shy, times: number) => {
+    let memory: CharacterMemory = createCharacterMemory()
+    const expressions: string[] = []
+    for (let i = 0; i < times; i++) {
+      const result = respondToInteraction(character, memory, 'share', start + i * 1000)
+      memory = result.memory
+      expressions.push(result.response.expression)
+    }
+    return { memory, expressions }
+  }
+
+  it('should let a shy character warm up over several shares', () => {
+    const { expressions } = shareTimes(shy, 4)
+
+    expect(expressions).toEqual(['neutral', 'happy', 'happy', 'excited'])
+  })
+
+  it('should walk a shy character through its responses in order', () => {
+    let memory = createCharacterMemory()
+    const messages: string[] = []
+    for (let i = 0; i < 4; i++) {
+      const result = respondToInteraction(shy, memory, 'share', start)
+      memory = result.memory
+      messages.push(result.response.message)
+    }
+
+    expect(messages).toEqual(['a', 'b', 'b', 'c'])
+  })
+
+  it('should make a friendly character happy straight away', () => {
+    const { response } = respondToInteraction(friendly, createCharacterMemory(), 'share', start)
+
+    expect(response.expression).toBe('excited')
+    expect(response.restingExpression).toBe('happy')
+  })
+
+  it('should not repeat the last message for random responders', () => {
+    let memory = createCharacterMemory()
+    let last = ''
+    for (let i = 0; i < 6; i++) {
+      const result = respondToInteraction(friendly, memory, 'click', start, () => 0)
+      expect(result.response.message).not.toBe(last)
+      last = result.response.message
+      memory = result.memory
+    }
+  })
+
+  it('should cool down while the character is left alone', () => {
+    const { memory } = shareTimes(shy, 4)
+
+    expect(getCurrentWarmth(memory, memory.lastInteraction + 10 * 60 * 1000)).toBe(0)
+  })
+
+  it('should remember only the most recent interactions', () => {
+    const { memory } = shareTimes(friendly, 8)
+
+    expect(memory.recent).toHaveLength(5)
+    expect(memory.recent[0].at).toBe(start + 7000)
+  })
+
+  describe('passOverCharacter', () => {
+    const passOver = (times: number) => {
+      let memory = createCharacterMemory()
+      let response = null
+      for (let i = 0; i < times; i++) {
+        const result = passOverCharacter(friendly, memory, start)
+        memory = result.memory
+        response = result.response
+      }
+      return { memory, response }
+    }
+
+    it('should stay quiet while only a couple of shares go elsewhere', () => {
+      const { memory, response } = passOver(2)
+
+      expect(response).toBeNull()
+      expect(memory.feelsLeftOut).toBe(false)
+    })
+
+    it('should look softly sad after being passed over several times', () => {
+      const { memory, response } = passOver(3)
+
+      expect(response?.expression).toBe('sad')
+      expect(response?.restingExpression).toBe('neutral')
+      expect(response?.message).toBe('...')
+      expect(memory.feelsLeftOut).toBe(true)
+    })
+
+    it('should mark the next share with a left-out character as a recovery', () => {
+      const { memory } = passOver(3)
+      const recovered = respondToInteraction(friendly, memory, 'share', start + 1000)
+      const after = respondToInteraction(friendly, recovered.memory, 'share', start + 2000)
+
+      expect(recovered.response.isRecovery).toBe(true)
+      expect(recovered.response.expression).toBe('excited')
+      expect(recovered.memory.feelsLeftOut).toBe(false)
+      expect(after.response.isRecovery).toBe(false)
+    })
+  })
+})
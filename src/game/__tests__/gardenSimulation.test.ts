@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createInitialGarden,
+  plantSeed,
+  waterPlot,
+  advanceGarden,
+  growPlot,
+  harvestPlot,
+  isPlantThirsty,
+  decoratePlot,
+  type CareLookup,
+  type GardenState
+} from '../gardenSimulation'
+
+describe('gardenSimulation', () => {
+  const care: CareLookup = () => ({ waterFrequency: 10000, growthTime: 5000 })
+  const start = 1_700_000_000_000
+
+  const plantedGarden = (): GardenState => plantSeed(createInitialGarden(), 'plot1', 'flower', start)
+
+  describe('plantSeed', () => {
+    it('should plant a seed in an empty plot', () => {
+      const garden = plantedGarden()
+      const plot = garden.plots.find(p => p.id === 'plot1')!
+
+      expect(plot.stage).toBe('seed')
+      expect(plot.plantedTime).toBe(start)
+      expect(plot.growthProgress).toBe(0)
+    })
+
+    it('should use up a seed from the inventory', () => {
+      const before = createInitialGarden().seedInventory.flower
+
+      expect(plantedGarden().seedInventory.flower).toBe(before - 1)
+    })
+
+    it('should not plant without a seed', () => {
+      const garden = { ...createInitialGarden(), seedInventory: { flower: 0, tree: 0, vegetable: 0 } }
+
+      expect(plantSeed(garden, 'plot1', 'flower', start)).toBe(garden)
+    })
+
+    it('should not replant an occupied plot', () => {
+      const garden = plantSeed(plantedGarden(), 'plot1', 'tree', start + 1000)
+      const plot = garden.plots.find(p => p.id === 'plot1')!
+
+      expect(plot.plantType).toBe('flower')
+      expect(plot.plantedTime).toBe(start)
+    })
+  })
+
+  describe('growPlot', () => {
+    it('should not grow a seed that was never watered', () => {
+      const plot = plantedGarden().plots[0]
+      const grown = growPlot(plot, start + 60000, care)
+
+      expect(grown.stage).toBe('seed')
+      expect(grown.growthProgress).toBe(0)
+    })
+
+    it('should grow one stage per growthTime while watered', () => {
+      const watered = waterPlot(plantedGarden(), 'plot1', start, care)
+      const grown = growPlot(watered.plots[0], start + 6000, care)
+
+      expect(grown.stage).toBe('sprout')
+      expect(grown.growthProgress).toBe(6000)
+    })
+
+    it('should pause growth once the watering wears off', () => {
+      const watered = waterPlot(plantedGarden(), 'plot1', start, care)
+      const grown = growPlot(watered.plots[0], start + 24 * 60 * 60 * 1000, care)
+
+      expect(grown.growthProgress).toBe(10000)
+      expect(grown.stage).toBe('small')
+    })
+
+    it('should cap growth at the mature stage', () => {
+      let garden = plantedGarden()
+      for (let i = 0; i < 5; i++) {
+        garden = waterPlot(garden, 'plot1', start + i * 10000, care)
+      }
+      const grown = growPlot(garden.plots[0], start + 60000, care)
+
+      expect(grown.stage).toBe('mature')
+    })
+  })
+
+  describe('harvestPlot', () => {
+    const harvestLookup = () => ({
+      produceId: 'apple',
+      produceName: '苹果',
+      produceEmoji: '🍎',
+      produceCount: 2,
+      seedCount: 3
+    })
+
+    it('should return produce and seeds from a mature plant', () => {
+      const garden = plantedGarden()
+      const matureGarden = { ...garden, plots: garden.plots.map((p, i) => i === 0 ? { ...p, stage: 'mature' as const } : p) }
+      const { garden: harvested, harvest } = harvestPlot(matureGarden, 'plot1', start, harvestLookup)
+
+      expect(harvest?.plantType).toBe('flower')
+      expect(harvest?.plotId).toBe('plot1')
+      expect(harvest?.produceCount).toBe(2)
+      expect(harvested.plots[0].stage).toBe('empty')
+      expect(harvested.seedInventory.flower).toBe(garden.seedInventory.flower + 3)
+    })
+
+    it('should not harvest a plant that is still growing', () => {
+      const garden = plantedGarden()
+      const result = harvestPlot(garden, 'plot1', start, harvestLookup)
+
+      expect(result.harvest).toBeNull()
+      expect(result.garden).toBe(garden)
+    })
+  })
+
+  describe('waterPlot', () => {
+    it('should bank growth from the previous watering', () => {
+      let garden = waterPlot(plantedGarden(), 'plot1', start, care)
+      garden = waterPlot(garden, 'plot1', start + 20000, care)
+
+      expect(garden.plots[0].growthProgress).toBe(10000)
+      expect(garden.plots[0].lastWatered).toBe(start + 20000)
+    })
+
+    it('should ignore empty plots', () => {
+      const garden = waterPlot(createInitialGarden(), 'plot2', start, care)
+
+      expect(garden.plots[1].lastWatered).toBe(0)
+    })
+  })
+
+  describe('decoratePlot', () => {
+    it('should keep a decoration on the plot when something is planted there', () => {
+      let garden = decoratePlot(createInitialGarden(), 'plot1', 'ribbon', start)
+      garden = plantSeed(garden, 'plot1', 'flower', start)
+
+      expect(garden.plots[0].decoration).toBe('ribbon')
+      expect(garden.plots[1].decoration).toBeUndefined()
+    })
+  })
+
+  describe('isPlantThirsty', () => {
+    it('should report thirst after waterFrequency has passed', () => {
+      const plot = waterPlot(plantedGarden(), 'plot1', start, care).plots[0]
+
+      expect(isPlantThirsty(plot, start + 5000, care)).toBe(false)
+      expect(isPlantThirsty(plot, start + 15000, care)).toBe(true)
+    })
+
+    it('should never report empty plots as thirsty', () => {
+      expect(isPlantThirsty(createInitialGarden().plots[0], start, care)).toBe(false)
+    })
+  })
+
+  describe('advanceGarden', () => {
+    it('should return the same garden when no stage changes', () => {
+      const garden = waterPlot(plantedGarden(), 'plot1', start, care)
+
+      expect(advanceGarden(garden, start + 1000, care)).toBe(garden)
+    })
+
+    it('should refill the seed tray when the garden is empty and out of seeds', () => {
+      const garden = { ...createInitialGarden(), seedInventory: { flower: 0, tree: 0, vegetable: 0 } }
+      const advanced = advanceGarden(garden, start, care)
+
+      expect(advanced.seedInventory).toEqual(createInitialGarden().seedInventory)
+    })
+
+    it('should return a new garden when a plot reaches a new stage', () => {
+      const garden = waterPlot(plantedGarden(), 'plot1', start, care)
+      const advanced = advanceGarden(garden, start + 6000, care)
+
+      expect(advanced).not.toBe(garden)
+      expect(advanced.plots[0].stage).toBe('sprout')
+      expect(advanced.lastUpdated).toBe(start + 6000)
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { getEventWeights, scoreInterests, getInterestTrends, updateInterestTags } from '../interestEngine'
+import type { InterestRule } from '../../config/appConfig'
+import type { BehaviorEvent } from '../../utils/eventLog'
+
+describe('interestEngine', () => {
+  const DAY = 24 * 60 * 60 * 1000
+  const now = new Date(2024, 5, 14, 12).getTime()
+  const rules: InterestRule[] = [
+    { action: 'share', weights: { social: 1 } },
+    { scene: 'home', action: 'share', weights: { social: 0.5 } },
+    { object: 'music_box', weights: { music: 1.5 } },
+    { action: 'care', object: 'watered_', weights: { care: 1 } }
+  ]
+  const event = (overrides: Partial<BehaviorEvent>): BehaviorEvent => ({
+    profileId: 'child_1',
+    sessionId: 'session_1',
+    type: 'share',
+    scene: 'home',
+    timestamp: now,
+    ...overrides
+  })
+
+  it('should add up the weights of every matching rule', () => {
+    const weights = getEventWeights(event({ subjectId: 'music_box' }), rules)
+
+    expect(weights.social).toBe(1.5)
+    expect(weights.music).toBe(1.5)
+  })
+
+  it('should match objects by prefix', () => {
+    expect(getEventWeights(event({ type: 'care', scene: 'garden', subjectId: 'watered_tree' }), rules).care).toBe(1)
+    expect(getEventWeights(event({ type: 'care', scene: 'garden', subjectId: 'planted_tree' }), rules).care).toBe(0)
+  })
+
+  it('should decay older behaviour', () => {
+    const model = { rules, decayRate: 0.5 }
+    const fresh = scoreInterests([event({ scene: 'town' })], model, now)
+    const dayOld = scoreInterests([event({ scene: 'town', timestamp: now - DAY })], model, now)
+
+    expect(fresh.social).toBe(1)
+    expect(dayOld.social).toBe(0.5)
+  })
+
+  it('should report a rising trend when recent days score higher', () => {
+    const trends = getInterestTrends(
+      [event({ subjectId: 'music_box', timestamp: now - DAY }), event({ subjectId: 'music_box' })],
+      rules,
+      now,
+      4
+    )
+    const music = trends.find(trend => trend.category === 'music')
+
+    expect(music?.daily).toEqual([0, 0, 1.5, 1.5])
+    expect(music?.direction).toBe('rising')
+  })
+
+  it('should keep lastActive for interests without new behaviour', () => {
+    const tags = updateInterestTags(
+      [{ category: 'care', score: 3, lastActive: 42 }],
+      [event({ subjectId: 'music_box' })],
+      [],
+      { rules, decayRate: 0.9 },
+      now
+    )
+
+    expect(tags.find(tag => tag.category === 'care')).toEqual({ category: 'care', score: 0, lastActive: 42, trend: 'steady' })
+    expect(tags.find(tag => tag.category === 'music')?.lastActive).toBe(now)
+  })
+})
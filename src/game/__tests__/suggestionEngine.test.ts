@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { rankSuggestions, isSuggestionEligible, SuggestionContext } from '../suggestionEngine'
+import type { SuggestionConfig } from '../../config/appConfig'
+
+describe('suggestionEngine', () => {
+  const DAY = 24 * 60 * 60 * 1000
+  const now = new Date(2024, 5, 14, 12).getTime()
+  const suggestion = (id: string, overrides: Partial<SuggestionConfig> = {}): SuggestionConfig => ({
+    id,
+    title: id,
+    description: '',
+    activity: '',
+    ageRange: [2, 4],
+    interests: [],
+    materials: [],
+    duration: 10,
+    ...overrides
+  })
+  const context = (overrides: Partial<SuggestionContext> = {}): SuggestionContext => ({
+    age: 3,
+    interests: [
+      { category: 'music', score: 4, lastActive: now },
+      { category: 'care', score: 2, lastActive: now },
+      { category: 'social', score: 0, lastActive: 0 }
+    ],
+    recentCounts: {},
+    feedback: {},
+    history: {},
+    now,
+    ...overrides
+  })
+  const catalogue = [
+    suggestion('general'),
+    suggestion('social', { interests: ['social'] }),
+    suggestion('care', { interests: ['care'] }),
+    suggestion('music', { interests: ['music'] })
+  ]
+
+  it('filters by age, required behaviour and "not for us"', () => {
+    expect(isSuggestionEligible(suggestion('older', { ageRange: [4, 4] }), context())).toBe(false)
+    expect(isSuggestionEligible(suggestion('helper', { requiredBehaviors: { help: 2 } }), context({ recentCounts: { help: 1 } }))).toBe(false)
+    expect(isSuggestionEligible(suggestion('helper', { requiredBehaviors: { help: 2 } }), context({ recentCounts: { help: 2 } }))).toBe(true)
+    expect(isSuggestionEligible(suggestion('music'), context({ feedback: { music: 'not_for_us' } }))).toBe(false)
+  })
+
+  it('ranks by dominant interests, with general activities above weak matches', () => {
+    expect(rankSuggestions(catalogue, context()).map(s => s.id)).toEqual(['music', 'care', 'general'])
+  })
+
+  it('lets recently shown and tried suggestions give way', () => {
+    const ranked = rankSuggestions(catalogue, context({
+      history: { music: now - 0.6 * DAY },
+      feedback: { care: 'tried' }
+    }), 2)
+
+    expect(ranked.map(s => s.id)).toEqual(['general', 'care'])
+  })
+
+  it('keeps suggestions shown earlier today in place', () => {
+    const ranked = rankSuggestions(catalogue, context({ history: { music: now - 60 * 60 * 1000 } }), 1)
+
+    expect(ranked.map(s => s.id)).toEqual(['music'])
+  })
+})
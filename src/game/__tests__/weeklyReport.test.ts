@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { buildWeeklyReport, WeeklyReportInput } from '../weeklyReport'
+import { aggregateEvents, BehaviorEvent } from '../../utils/eventLog'
+
+describe('weeklyReport', () => {
+  const DAY = 24 * 60 * 60 * 1000
+  const now = new Date(2024, 5, 14, 12).getTime()
+  const event = (overrides: Partial<BehaviorEvent>): BehaviorEvent => ({
+    profileId: 'child_1',
+    sessionId: 'session_1',
+    type: 'share',
+    scene: 'home',
+    timestamp: now,
+    ...overrides
+  })
+  const input = (overrides: Partial<WeeklyReportInput>): WeeklyReportInput => ({
+    ledger: {},
+    events: [],
+    aggregates: [],
+    model: { rules: [{ action: 'share', weights: { social: 1 } }], decayRate: 1 },
+    window: 100,
+    now,
+    ...overrides
+  })
+
+  it('counts play time and share/help/care per day, with reconciling as sharing', () => {
+    const report = buildWeeklyReport(input({
+      ledger: { '2024-06-13': 10 * 60000, '2024-06-14': 5 * 60000, '2024-06-01': 60000 },
+      events: [
+        event({ timestamp: now - DAY }),
+        event({ type: 'reconcile' }),
+        event({ type: 'help', sessionId: 'session_2' }),
+        event({ type: 'explore' })
+      ]
+    }))
+
+    expect(report.days.map(day => day.date)).toEqual([
+      '2024-06-08', '2024-06-09', '2024-06-10', '2024-06-11', '2024-06-12', '2024-06-13', '2024-06-14'
+    ])
+    expect(report.totalPlayTime).toBe(15 * 60000)
+    expect(report.days[5].counts).toEqual({ share: 1, help: 0, care: 0 })
+    expect(report.days[6].counts).toEqual({ share: 1, help: 1, care: 0 })
+    expect(report.totals).toEqual({ share: 2, help: 1, care: 0 })
+    expect(report.sessionCount).toBe(2)
+  })
+
+  it('includes days that were already compacted', () => {
+    const aggregates = aggregateEvents([event({ type: 'care', timestamp: now - 3 * DAY })])
+    const report = buildWeeklyReport(input({ aggregates }))
+
+    expect(report.days[3].counts.care).toBe(1)
+  })
+
+  it('shows how interest scores moved since the week began', () => {
+    const report = buildWeeklyReport(input({
+      events: [event({ timestamp: now - 10 * DAY }), event({}), event({})]
+    }))
+
+    expect(report.interestShifts.find(shift => shift.category === 'social')).toEqual({
+      category: 'social',
+      start: 1,
+      end: 3,
+      change: 2
+    })
+  })
+
+  it('highlights firsts that no earlier raw or compacted day already had', () => {
+    const aggregates = aggregateEvents([event({ targetId: 'bunny', timestamp: now - 30 * DAY })])
+    const report = buildWeeklyReport(input({
+      aggregates,
+      events: [
+        event({ targetId: 'bunny' }),
+        event({ type: 'reconcile', targetId: 'bear', timestamp: now - 2 * DAY }),
+        event({ targetId: 'bear' }),
+        event({ type: 'create', scene: 'garden', subjectId: 'bouquet' })
+      ]
+    }))
+
+    expect(report.highlights.map(highlight => highlight.key)).toEqual(['share:bear', 'create:bouquet'])
+    expect(report.highlights[0]).toMatchObject({ kind: 'share', id: 'bear', timestamp: now - 2 * DAY })
+  })
+})
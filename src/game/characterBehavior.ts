@@ -0,0 +1,179 @@
+// Framework-free character behaviour engine: how HomeScene friends respond to the child
+import type { CharacterConfig, CharacterPersonality } from '../config/appConfig'
+import type { CharacterAnimation, CharacterExpression } from '../components/CharacterRenderer'
+
+export type InteractionKind = 'share' | 'click' | 'ignore'
+
+export interface InteractionRecord {
+  kind: InteractionKind
+  at: number
+  message: string
+}
+
+export interface CharacterMemory {
+  warmth: number // how comfortable the character is with the child, cools down over time
+  lastInteraction: number
+  recent: InteractionRecord[] // newest first
+  passedOver: number // shares in a row that went to other characters
+  feelsLeftOut: boolean // set when passedOver reaches the threshold, cleared by the next share
+}
+
+export interface CharacterResponse {
+  message: string
+  expression: CharacterExpression
+  animation: CharacterAnimation
+  restingExpression: CharacterExpression // where the expression settles once the reaction is over
+  isRecovery: boolean // the child shared with a character who felt left out
+}
+
+interface PersonalityProfile {
+  warmthGain: Record<InteractionKind, number>
+  happyAt: number
+  excitedAt: number
+  animations: Record<'neutral' | 'happy' | 'excited', CharacterAnimation>
+  progressiveResponses: boolean // walk through the response list as the character warms up
+}
+
+const PERSONALITY_PROFILES: Record<CharacterPersonality, PersonalityProfile> = {
+  friendly: {
+    warmthGain: { share: 2, click: 1, ignore: -1 },
+    happyAt: 0,
+    excitedAt: 2,
+    animations: { neutral: 'wave', happy: 'wave', excited: 'jump' },
+    progressiveResponses: false
+  },
+  // Shy friends react quietly at first and only open up after several shares
+  shy: {
+    warmthGain: { share: 1, click: 0.5, ignore: -2 },
+    happyAt: 1.5,
+    excitedAt: 3.5,
+    animations: { neutral: 'idle', happy: 'idle', excited: 'wave' },
+    progressiveResponses: true
+  },
+  playful: {
+    warmthGain: { share: 2, click: 1, ignore: -1 },
+    happyAt: 1,
+    excitedAt: 2,
+    animations: { neutral: 'jump', happy: 'jump', excited: 'jump' },
+    progressiveResponses: false
+  },
+  helpful: {
+    warmthGain: { share: 1, click: 1, ignore: 0 },
+    happyAt: 0,
+    excitedAt: 3,
+    animations: { neutral: 'wave', happy: 'wave', excited: 'wave' },
+    progressiveResponses: false
+  }
+}
+
+const MAX_WARMTH = 6
+const WARMTH_COOLDOWN_MS = 60 * 1000 // one point of warmth fades per minute without interaction
+const RECENT_LIMIT = 5
+const PASSED_OVER_THRESHOLD = 3
+const EXPRESSION_LADDER: Array<'neutral' | 'happy' | 'excited'> = ['neutral', 'happy', 'excited']
+
+export const createCharacterMemory = (): CharacterMemory => ({
+  warmth: 0,
+  lastInteraction: 0,
+  recent: [],
+  passedOver: 0,
+  feelsLeftOut: false
+})
+
+export const getCurrentWarmth = (memory: CharacterMemory, now: number) => {
+  if (!memory.lastInteraction) return memory.warmth
+  const cooled = (now - memory.lastInteraction) / WARMTH_COOLDOWN_MS
+  return Math.max(0, memory.warmth - cooled)
+}
+
+const getLevel = (warmth: number, profile: PersonalityProfile) => {
+  if (warmth >= profile.excitedAt) return 2
+  if (warmth >= profile.happyAt) return 1
+  return 0
+}
+
+const pickMessage = (
+  messages: string[],
+  level: number,
+  memory: CharacterMemory,
+  profile: PersonalityProfile,
+  random: () => number
+) => {
+  if (messages.length === 0) return ''
+  if (profile.progressiveResponses) return messages[Math.min(level, messages.length - 1)]
+
+  // Avoid saying the same thing twice in a row
+  const lastMessage = memory.recent[0]?.message
+  const candidates = messages.length > 1 ? messages.filter(message => message !== lastMessage) : messages
+  return candidates[Math.floor(random() * candidates.length)]
+}
+
+/**
+ * Resolves how a character reacts to an interaction. Warmth rises with shares and
+ * clicks and cools while the character is left alone; the warmth level moves the
+ * expression along neutral → happy → excited and back.
+ */
+export const respondToInteraction = (
+  character: Pick<CharacterConfig, 'personality' | 'responses'>,
+  memory: CharacterMemory,
+  kind: InteractionKind,
+  now: number,
+  random: () => number = Math.random
+): { memory: CharacterMemory; response: CharacterResponse } => {
+  const profile = PERSONALITY_PROFILES[character.personality]
+  const isRecovery = kind === 'share' && memory.feelsLeftOut
+  const warmth = Math.min(MAX_WARMTH, Math.max(0, getCurrentWarmth(memory, now) + profile.warmthGain[kind]))
+  // Being included again after feeling left out always lifts the character all the way up
+  const level = kind === 'ignore' ? 0 : isRecovery ? 2 : getLevel(warmth, profile)
+  const message = pickMessage(character.responses[kind], level, memory, profile, random)
+
+  const nextMemory: CharacterMemory = {
+    ...memory,
+    warmth,
+    lastInteraction: now,
+    recent: [{ kind, at: now, message }, ...memory.recent].slice(0, RECENT_LIMIT),
+    ...(kind === 'share' && { passedOver: 0, feelsLeftOut: false })
+  }
+
+  if (kind === 'ignore') {
+    return {
+      memory: nextMemory,
+      // A soft, brief sadness - the character settles back to neutral on its own
+      response: { message, expression: 'sad', animation: 'idle', restingExpression: 'neutral', isRecovery: false }
+    }
+  }
+
+  const expression = EXPRESSION_LADDER[level]
+  return {
+    memory: nextMemory,
+    response: {
+      message,
+      expression,
+      animation: profile.animations[expression],
+      // Settle one step down the ladder, so an excited friend stays happy for a while
+      restingExpression: EXPRESSION_LADDER[Math.max(0, level - 1)],
+      isRecovery
+    }
+  }
+}
+
+/**
+ * Notes that the child shared with someone else. After several shares in a row
+ * pass a character by, it responds with one of its `ignore` lines; otherwise
+ * the response is null and the character carries on as before.
+ */
+export const passOverCharacter = (
+  character: Pick<CharacterConfig, 'personality' | 'responses'>,
+  memory: CharacterMemory,
+  now: number,
+  random: () => number = Math.random
+): { memory: CharacterMemory; response: CharacterResponse | null } => {
+  const passedOver = memory.passedOver + 1
+  if (passedOver < PASSED_OVER_THRESHOLD) {
+    return { memory: { ...memory, passedOver }, response: null }
+  }
+
+  const { memory: nextMemory, response } = respondToInteraction(character, memory, 'ignore', now, random)
+  // Start counting again, so the reminder repeats only every few shares
+  return { memory: { ...nextMemory, passedOver: 0, feelsLeftOut: true }, response }
+}
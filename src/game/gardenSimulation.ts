@@ -0,0 +1,199 @@
+// Framework-free garden simulation shared by the DOM (GardenScene) and Phaser (FarmScene) renderers
+import { configManager, HarvestConfig } from '../config/appConfig'
+
+export type PlantStage = 'empty' | 'seed' | 'sprout' | 'small' | 'flowering' | 'mature'
+export type PlantType = 'flower' | 'tree' | 'vegetable'
+
+export interface GardenPlot {
+  id: string
+  x: number
+  y: number
+  stage: PlantStage
+  lastWatered: number
+  plantedTime: number // wall-clock ms, so growth continues while the app is closed
+  plantType: PlantType
+  growthProgress: number // ms of watered growth accumulated up to lastGrowthUpdate
+  lastGrowthUpdate: number
+  decoration?: string // DecorationConfig id; stays with the plot through replanting
+}
+
+export type SeedInventory = Record<PlantType, number>
+
+export interface GardenState {
+  plots: GardenPlot[]
+  seedInventory: SeedInventory
+  lastUpdated: number
+}
+
+export interface HarvestResult {
+  garden: GardenState
+  harvest: (HarvestConfig & { plantType: PlantType; plotId: string }) | null
+}
+
+export interface CareRequirements {
+  waterFrequency: number // ms a single watering keeps the soil moist
+  growthTime: number // ms of watered time per stage
+}
+
+export type CareLookup = (plantType: PlantType) => CareRequirements
+export type HarvestLookup = (plantType: PlantType) => HarvestConfig
+
+const DEFAULT_CARE_REQUIREMENTS: CareRequirements = { waterFrequency: 10000, growthTime: 5000 }
+const DEFAULT_HARVEST: HarvestConfig = { produceId: 'fruit', produceName: '果实', produceEmoji: '🍓', produceCount: 1, seedCount: 1 }
+export const PLANT_STAGES: PlantStage[] = ['seed', 'sprout', 'small', 'flowering', 'mature']
+const STARTER_SEEDS: SeedInventory = { flower: 2, tree: 1, vegetable: 2 }
+
+export const createInitialGarden = (): GardenState => ({
+  plots: [
+    createEmptyPlot('plot1', 150, 300, 'flower'),
+    createEmptyPlot('plot2', 300, 300, 'tree'),
+    createEmptyPlot('plot3', 450, 300, 'vegetable')
+  ],
+  seedInventory: { ...STARTER_SEEDS },
+  lastUpdated: 0
+})
+
+function createEmptyPlot(id: string, x: number, y: number, plantType: PlantType): GardenPlot {
+  return { id, x, y, stage: 'empty', lastWatered: 0, plantedTime: 0, plantType, growthProgress: 0, lastGrowthUpdate: 0 }
+}
+
+export const getCareRequirements: CareLookup = (plantType) => {
+  return configManager.getPlantById(plantType)?.careRequirements ?? DEFAULT_CARE_REQUIREMENTS
+}
+
+export const getHarvestYield: HarvestLookup = (plantType) => {
+  return configManager.getPlantById(plantType)?.harvest ?? DEFAULT_HARVEST
+}
+
+// Watered time between `from` and `to`: each watering keeps the soil moist for waterFrequency ms
+const getWateredTime = (plot: GardenPlot, from: number, to: number, waterFrequency: number) => {
+  if (!plot.lastWatered) return 0
+
+  const start = Math.max(from, plot.lastWatered)
+  const end = Math.min(to, plot.lastWatered + waterFrequency)
+  return Math.max(0, end - start)
+}
+
+/**
+ * Advances a single plot to `now`. Plants only grow while watered; neglected
+ * plants pause at their current stage but never die.
+ */
+export const growPlot = (plot: GardenPlot, now: number, care: CareLookup = getCareRequirements): GardenPlot => {
+  if (plot.stage === 'empty') return plot
+
+  const { waterFrequency, growthTime } = care(plot.plantType)
+  const from = plot.lastGrowthUpdate || plot.plantedTime
+  const growthProgress = plot.growthProgress + getWateredTime(plot, from, now, waterFrequency)
+  const stageIndex = Math.min(PLANT_STAGES.length - 1, Math.floor(growthProgress / growthTime))
+
+  return {
+    ...plot,
+    stage: PLANT_STAGES[stageIndex],
+    growthProgress,
+    lastGrowthUpdate: now
+  }
+}
+
+export const isPlantThirsty = (plot: GardenPlot, now: number, care: CareLookup = getCareRequirements) => {
+  if (plot.stage === 'empty') return false
+  return now - plot.lastWatered > care(plot.plantType).waterFrequency
+}
+
+export const canPlant = (garden: GardenState, plantType: PlantType) => garden.seedInventory[plantType] > 0
+
+// Planting uses up one seed; without a seed (or on an occupied plot) the garden is returned unchanged
+export const plantSeed = (garden: GardenState, plotId: string, plantType: PlantType, now: number): GardenState => {
+  const target = garden.plots.find(plot => plot.id === plotId)
+  if (!target || target.stage !== 'empty' || !canPlant(garden, plantType)) return garden
+
+  return {
+    ...garden,
+    plots: garden.plots.map(plot =>
+      plot === target
+        ? { ...plot, stage: 'seed', plantedTime: now, lastWatered: 0, plantType, growthProgress: 0, lastGrowthUpdate: now }
+        : plot
+    ),
+    seedInventory: { ...garden.seedInventory, [plantType]: garden.seedInventory[plantType] - 1 },
+    lastUpdated: now
+  }
+}
+
+/**
+ * Picks a mature plant: new seeds go back to the seed tray and the plot is
+ * cleared for the next cycle (种子 → 水果 → 更多种子). The produce is returned
+ * in `harvest` for the caller to put into the child's inventory.
+ */
+export const harvestPlot = (
+  garden: GardenState,
+  plotId: string,
+  now: number,
+  harvestLookup: HarvestLookup = getHarvestYield
+): HarvestResult => {
+  const target = garden.plots.find(plot => plot.id === plotId)
+  if (!target || target.stage !== 'mature') return { garden, harvest: null }
+
+  const harvest = { ...harvestLookup(target.plantType), plantType: target.plantType, plotId: target.id }
+
+  return {
+    garden: {
+      ...garden,
+      plots: garden.plots.map(plot =>
+        plot === target
+          ? { ...plot, stage: 'empty', plantedTime: 0, lastWatered: 0, growthProgress: 0, lastGrowthUpdate: 0 }
+          : plot
+      ),
+      seedInventory: {
+        ...garden.seedInventory,
+        [target.plantType]: garden.seedInventory[target.plantType] + harvest.seedCount
+      },
+      lastUpdated: now
+    },
+    harvest
+  }
+}
+
+export const waterPlot = (
+  garden: GardenState,
+  plotId: string,
+  now: number,
+  care: CareLookup = getCareRequirements
+): GardenState => ({
+  ...garden,
+  // Bank the growth from the previous watering before starting a new one
+  plots: garden.plots.map(plot =>
+    plot.id === plotId && plot.stage !== 'empty'
+      ? { ...growPlot(plot, now, care), lastWatered: now }
+      : plot
+  ),
+  lastUpdated: now
+})
+
+export const decoratePlot = (garden: GardenState, plotId: string, decorationId: string, now: number): GardenState => ({
+  ...garden,
+  plots: garden.plots.map(plot => (plot.id === plotId ? { ...plot, decoration: decorationId } : plot)),
+  lastUpdated: now
+})
+
+/**
+ * Advances every plot to `now`. Growth is recomputed from lastGrowthUpdate, so
+ * the same garden object is returned unless a stage changed - callers can skip
+ * committing (and persisting) no-op ticks.
+ */
+export const advanceGarden = (garden: GardenState, now: number, care: CareLookup = getCareRequirements): GardenState => {
+  const plots = garden.plots.map(plot => {
+    const grown = growPlot(plot, now, care)
+    return grown.stage === plot.stage ? plot : grown
+  })
+
+  const isStuck = plots.every(plot => plot.stage === 'empty') &&
+    Object.values(garden.seedInventory).every(count => count <= 0)
+
+  if (isStuck) {
+    // Never leave a child with an empty garden and no seeds - a bird drops off a fresh handful
+    return { ...garden, plots, seedInventory: { ...STARTER_SEEDS }, lastUpdated: now }
+  }
+
+  if (plots.every((plot, index) => plot === garden.plots[index])) return garden
+
+  return { ...garden, plots, lastUpdated: now }
+}
@@ -0,0 +1,119 @@
+// Framework-free interest engine: turns logged behaviour into decaying interest scores and trends
+import type { InterestRule } from '../config/appConfig'
+import type { InterestTag } from '../store/appStore'
+import type { BehaviorEvent } from '../utils/eventLog'
+
+export type InterestCategory = InterestTag['category']
+export type InterestTrendDirection = 'rising' | 'steady' | 'falling'
+
+export interface InterestTrend {
+  category: InterestCategory
+  daily: number[] // undecayed score per local day, oldest first
+  direction: InterestTrendDirection
+}
+
+export interface InterestModel {
+  rules: InterestRule[]
+  decayRate: number // score multiplier per day of age
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const TREND_THRESHOLD = 0.2 // relative change between the two halves of the trend window
+
+export const INTEREST_CATEGORIES: InterestCategory[] = ['music', 'hands_on', 'care', 'social', 'exploration']
+
+const createScores = (): Record<InterestCategory, number> => ({
+  music: 0,
+  hands_on: 0,
+  care: 0,
+  social: 0,
+  exploration: 0
+})
+
+// Objects match by prefix, so 'watered_' covers every plant type
+const matchesRule = (event: BehaviorEvent, rule: InterestRule) =>
+  (!rule.scene || rule.scene === event.scene) &&
+  (!rule.action || rule.action === event.type) &&
+  (!rule.object || (event.subjectId?.startsWith(rule.object) ?? false))
+
+// Every matching rule adds its weights, so a scene or object rule tops up a general action rule
+export const getEventWeights = (event: BehaviorEvent, rules: InterestRule[]) => {
+  const weights = createScores()
+  rules.filter(rule => matchesRule(event, rule)).forEach(rule => {
+    Object.entries(rule.weights).forEach(([category, weight]) => {
+      weights[category as InterestCategory] += weight ?? 0
+    })
+  })
+  return weights
+}
+
+export const scoreInterests = (events: BehaviorEvent[], model: InterestModel, now: number) => {
+  const scores = createScores()
+  events.forEach(event => {
+    const decay = Math.pow(model.decayRate, Math.max(0, now - event.timestamp) / DAY)
+    const weights = getEventWeights(event, model.rules)
+    INTEREST_CATEGORIES.forEach(category => {
+      scores[category] += weights[category] * decay
+    })
+  })
+  return scores
+}
+
+// Local midnight starting the day `daysAgo` days before `now`
+const getDayStart = (now: number, daysAgo: number) => {
+  const date = new Date(now)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysAgo).getTime()
+}
+
+const getDirection = (daily: number[]): InterestTrendDirection => {
+  const half = Math.floor(daily.length / 2)
+  const earlier = daily.slice(0, half).reduce((sum, score) => sum + score, 0)
+  const later = daily.slice(daily.length - half).reduce((sum, score) => sum + score, 0)
+  const baseline = Math.max(earlier, later)
+  if (baseline === 0 || Math.abs(later - earlier) / baseline < TREND_THRESHOLD) return 'steady'
+  return later > earlier ? 'rising' : 'falling'
+}
+
+// Per-category scores for each of the last `days` days, and whether interest is growing
+export const getInterestTrends = (events: BehaviorEvent[], rules: InterestRule[], now: number, days: number = 14): InterestTrend[] => {
+  const daily = INTEREST_CATEGORIES.map(() => Array.from({ length: days }, () => 0))
+  const firstDay = getDayStart(now, days - 1)
+
+  events.filter(event => event.timestamp >= firstDay && event.timestamp <= now).forEach(event => {
+    // Walk day boundaries rather than dividing by 24h, so DST days land correctly
+    let dayIndex = days - 1
+    while (dayIndex > 0 && event.timestamp < getDayStart(now, days - 1 - dayIndex)) dayIndex--
+    const weights = getEventWeights(event, rules)
+    INTEREST_CATEGORIES.forEach((category, index) => {
+      daily[index][dayIndex] += weights[category]
+    })
+  })
+
+  return INTEREST_CATEGORIES.map((category, index) => ({
+    category,
+    daily: daily[index],
+    direction: getDirection(daily[index])
+  }))
+}
+
+// Fresh tags for the profile: decayed scores, when each interest last showed and where it is heading
+export const updateInterestTags = (
+  tags: InterestTag[],
+  events: BehaviorEvent[],
+  trends: InterestTrend[],
+  model: InterestModel,
+  now: number
+): InterestTag[] => {
+  const scores = scoreInterests(events, model, now)
+
+  return INTEREST_CATEGORIES.map(category => {
+    const previous = tags.find(tag => tag.category === category)
+    const lastEvent = [...events].reverse().find(event => getEventWeights(event, model.rules)[category] > 0)
+    return {
+      category,
+      score: Math.round(scores[category] * 100) / 100,
+      lastActive: lastEvent?.timestamp ?? previous?.lastActive ?? 0,
+      trend: trends.find(trend => trend.category === category)?.direction ?? 'steady'
+    }
+  })
+}
@@ -0,0 +1,62 @@
+// Framework-free ranking of co-play suggestions for parents
+import type { SuggestionConfig } from '../config/appConfig'
+import type { InterestTag, SuggestionFeedback } from '../store/appStore'
+import type { BehaviorSummary } from '../utils/eventLog'
+
+export interface SuggestionContext {
+  age: number
+  interests: InterestTag[]
+  recentCounts: BehaviorSummary['counts'] // the last week of behaviour
+  feedback: Record<string, SuggestionFeedback>
+  history: Record<string, number> // suggestion id -> when it was last shown
+  now: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const GENERAL_SCORE = 0.3 // activities without interests rank below any real interest match
+const TRIED_FACTOR = 0.5 // parents who tried something still see it, just less often
+const RECENT_DAYS = 3 // suggestions shown this recently give way to fresh ones
+
+// Local midnight starting the day containing `now`
+const getDayStart = (now: number) => {
+  const date = new Date(now)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+}
+
+export const isSuggestionEligible = (suggestion: SuggestionConfig, context: SuggestionContext) => {
+  const [minAge, maxAge] = suggestion.ageRange
+  if (context.age < minAge || context.age > maxAge) return false
+  if (context.feedback[suggestion.id] === 'not_for_us') return false
+
+  return Object.entries(suggestion.requiredBehaviors ?? {}).every(
+    ([action, count]) => (context.recentCounts[action as keyof BehaviorSummary['counts']] ?? 0) >= (count ?? 0)
+  )
+}
+
+export const scoreSuggestion = (suggestion: SuggestionConfig, context: SuggestionContext) => {
+  const topScore = Math.max(0, ...context.interests.map(tag => tag.score))
+  const interestScore = suggestion.interests.length === 0 || topScore === 0
+    ? GENERAL_SCORE
+    : Math.max(...suggestion.interests.map(category => {
+      const tag = context.interests.find(interest => interest.category === category)
+      return (tag?.score ?? 0) / topScore
+    }))
+
+  // Suggestions shown earlier today are still today's picks, so reopening the tab does not reshuffle them
+  const lastShown = context.history[suggestion.id]
+  const recency = lastShown === undefined || lastShown >= getDayStart(context.now)
+    ? 1
+    : Math.min(1, (context.now - lastShown) / (RECENT_DAYS * DAY))
+
+  return interestScore * recency * (context.feedback[suggestion.id] === 'tried' ? TRIED_FACTOR : 1)
+}
+
+// The best `limit` suggestions for this child right now, best first
+export const rankSuggestions = (catalogue: SuggestionConfig[], context: SuggestionContext, limit: number = 3) => {
+  return catalogue
+    .filter(suggestion => isSuggestionEligible(suggestion, context))
+    .map(suggestion => ({ suggestion, score: scoreSuggestion(suggestion, context) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ suggestion }) => suggestion)
+}
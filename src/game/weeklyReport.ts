@@ -0,0 +1,117 @@
+// Framework-free weekly report for parents: play time, positive behaviour, interest shifts and firsts
+import { INTEREST_CATEGORIES, scoreInterests } from './interestEngine'
+import type { InterestCategory, InterestModel } from './interestEngine'
+import { aggregateEvents, getMilestoneKey } from '../utils/eventLog'
+import type { BehaviorEvent, DailyAggregate } from '../utils/eventLog'
+import { getRecentDays } from '../utils/playTimeLedger'
+import type { PlayTimeLedger } from '../utils/playTimeLedger'
+
+export type ReportAction = 'share' | 'help' | 'care'
+
+export interface ReportDay {
+  date: string // local 'YYYY-MM-DD'
+  timestamp: number // local midnight
+  playTime: number
+  counts: Record<ReportAction, number>
+}
+
+export interface InterestShift {
+  category: InterestCategory
+  start: number // score as the week began
+  end: number
+  change: number
+}
+
+// Something the child did for the first time this week, e.g. 'share:bear' or 'create:bouquet'
+export interface ReportHighlight {
+  key: string
+  kind: string // the part of the key before ':'
+  id: string // the friend or creation it was about
+  timestamp: number
+}
+
+export interface WeeklyReport {
+  weekStart: number
+  weekEnd: number
+  days: ReportDay[]
+  totals: Record<ReportAction, number>
+  totalPlayTime: number
+  sessionCount: number
+  interestShifts: InterestShift[]
+  highlights: ReportHighlight[]
+}
+
+export interface WeeklyReportInput {
+  ledger: PlayTimeLedger
+  events: BehaviorEvent[] // raw events, oldest first
+  aggregates: DailyAggregate[] // compacted days, for firsts older than the raw history
+  model: InterestModel
+  window: number // how many recent events interest scores consider, as in the store
+  now: number
+  days?: number
+}
+
+export const REPORT_ACTIONS: ReportAction[] = ['share', 'help', 'care']
+
+const countReportActions = (counts: DailyAggregate['counts'] = {}): Record<ReportAction, number> => ({
+  // Making up with a friend who felt left out counts as sharing too
+  share: (counts.share ?? 0) + (counts.reconcile ?? 0),
+  help: counts.help ?? 0,
+  care: counts.care ?? 0
+})
+
+const scoreAt = (events: BehaviorEvent[], model: InterestModel, window: number, at: number) => {
+  return scoreInterests(events.filter(event => event.timestamp <= at).slice(-window), model, at)
+}
+
+export const buildWeeklyReport = ({ ledger, events, aggregates, model, window, now, days = 7 }: WeeklyReportInput): WeeklyReport => {
+  const playDays = getRecentDays(ledger, now, days)
+  const weekStart = playDays[0].timestamp
+  const weekEvents = events.filter(event => event.timestamp >= weekStart && event.timestamp <= now)
+
+  // Per-day counts merge what is still raw with what has already been compacted
+  const byDate = new Map(aggregateEvents(
+    weekEvents,
+    aggregates.filter(aggregate => aggregate.date >= playDays[0].date)
+  ).map(aggregate => [aggregate.date, aggregate]))
+
+  const reportDays = playDays.map(day => ({ ...day, counts: countReportActions(byDate.get(day.date)?.counts) }))
+  const sessionIds = new Set([...byDate.values()].flatMap(aggregate => aggregate.sessionIds))
+
+  const startScores = scoreAt(events, model, window, weekStart)
+  const endScores = scoreAt(events, model, window, now)
+
+  // A milestone counts as a first only if nothing before the week already had it
+  const earlier = new Set([
+    ...aggregates.filter(aggregate => aggregate.date < playDays[0].date).flatMap(aggregate => aggregate.milestones ?? []),
+    ...events.filter(event => event.timestamp < weekStart).map(getMilestoneKey)
+  ])
+  const highlights: ReportHighlight[] = []
+  weekEvents.forEach(event => {
+    const key = getMilestoneKey(event)
+    if (!key || earlier.has(key)) return
+    earlier.add(key)
+    const [kind, id] = key.split(':')
+    highlights.push({ key, kind, id, timestamp: event.timestamp })
+  })
+
+  return {
+    weekStart,
+    weekEnd: now,
+    days: reportDays,
+    totals: {
+      share: reportDays.reduce((sum, day) => sum + day.counts.share, 0),
+      help: reportDays.reduce((sum, day) => sum + day.counts.help, 0),
+      care: reportDays.reduce((sum, day) => sum + day.counts.care, 0)
+    },
+    totalPlayTime: reportDays.reduce((sum, day) => sum + day.playTime, 0),
+    sessionCount: sessionIds.size,
+    interestShifts: INTEREST_CATEGORIES.map(category => ({
+      category,
+      start: Math.round(startScores[category] * 100) / 100,
+      end: Math.round(endScores[category] * 100) / 100,
+      change: Math.round((endScores[category] - startScores[category]) * 100) / 100
+    })),
+    highlights
+  }
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react'
+import { configManager, AppConfig } from '../config/appConfig'
+
+// Subscribes to configManager so content edits re-render the components that read them
+export function useAppConfig(): AppConfig {
+  const [config, setConfig] = useState<AppConfig>(() => configManager.getConfig())
+
+  useEffect(() => {
+    const unsubscribe = configManager.subscribe(() => setConfig(configManager.getConfig()))
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  return config
+}
+
+export function useSceneConfig<K extends keyof AppConfig['scenes']>(scene: K): AppConfig['scenes'][K] {
+  return useAppConfig().scenes[scene]
+}
@@ -1,6 +1,7 @@
 // Asset loading hook with performance optimization and accessibility support
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { assetManager, AssetMetadata, AssetCategory } from '@/config/assetConfig'
+import { AssetMetadata, AssetCategory } from '@/config/assetConfig'
+import { assetManager } from '@/utils/assetManager'
 
 export interface UseAssetLoaderOptions {
   lazy?: boolean
@@ -330,4 +331,13 @@ export function useAssetCache() {
     clearCache,
     getCacheStatus
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Keeps assets a component is showing out of the cache's LRU eviction until it unmounts
+ */
+export function useRetainedAssets(assetIds: string[]) {
+  const key = assetIds.join(',')
+
+  useEffect(() => assetManager.retain(key ? key.split(',') : []), [key])
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { eventLog, BehaviorSummary } from '../utils/eventLog'
+
+const DAY = 24 * 60 * 60 * 1000
+const EMPTY_SUMMARY: BehaviorSummary = { counts: {}, sceneCounts: {}, totalDuration: 0, sessionCount: 0 }
+
+// The active child's behaviour over the last `days` days, refreshed whenever the log changes
+export function useBehaviorSummary(days: number = 7): BehaviorSummary {
+  const { activeProfileId } = useAppStore()
+  const [summary, setSummary] = useState<BehaviorSummary>(EMPTY_SUMMARY)
+
+  useEffect(() => {
+    if (!activeProfileId) {
+      setSummary(EMPTY_SUMMARY)
+      return
+    }
+
+    let isCurrent = true
+    const load = () => {
+      eventLog
+        .summarize(activeProfileId, Date.now() - days * DAY)
+        .then(result => {
+          if (isCurrent) setSummary(result)
+        })
+        .catch(error => console.warn('Failed to read behavior log:', error))
+    }
+
+    load()
+    const unsubscribe = eventLog.subscribe(load)
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
+  }, [activeProfileId, days])
+
+  return summary
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { configManager, SuggestionConfig } from '../config/appConfig'
+import { rankSuggestions } from '../game/suggestionEngine'
+import { useBehaviorSummary } from './useBehaviorSummary'
+
+// Today's co-play picks for the active child. They are ranked when the parent opens them and
+// then stay put, so marking one "tried" or "not for us" only changes what comes up next time.
+export function useParentSuggestions(isVisible: boolean): SuggestionConfig[] {
+  const { activeProfileId } = useAppStore()
+  const { counts } = useBehaviorSummary(7)
+  const [suggestions, setSuggestions] = useState<SuggestionConfig[]>([])
+
+  useEffect(() => {
+    if (!isVisible) return
+
+    const { childProfile, recordSuggestionsShown } = useAppStore.getState()
+    const picks = rankSuggestions(configManager.getConfig().parentSuggestions, {
+      age: childProfile.age,
+      interests: childProfile.interests,
+      recentCounts: counts,
+      feedback: childProfile.suggestionFeedback ?? {},
+      history: childProfile.suggestionHistory ?? {},
+      now: Date.now()
+    })
+    setSuggestions(picks)
+    recordSuggestionsShown(picks.map(suggestion => suggestion.id))
+  }, [isVisible, activeProfileId, counts])
+
+  return suggestions
+}
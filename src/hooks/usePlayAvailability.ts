@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react'
+import { useAppStore, getPlayedToday, getTodayBudget } from '../store/appStore'
+import { isWithinSchedule, getNextOpening, getNextPlayDay } from '../utils/playSchedule'
+
+const AVAILABILITY_CHECK_INTERVAL = 30 * 1000
+
+export interface PlayAvailability {
+  isAvailable: boolean
+  nextOpening: number | null // when play is allowed again; null while available or if no day allows play
+}
+
+// Whether the child may play right now: inside the schedule, before bedtime and with budget left.
+// Re-checked as the clock moves on
+export function usePlayAvailability(): PlayAvailability {
+  const state = useAppStore()
+  const { settings, childProfile, gameState } = state
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), AVAILABILITY_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!isWithinSchedule(settings.playSchedule, now)) {
+    return { isAvailable: false, nextOpening: settings.playSchedule ? getNextOpening(settings.playSchedule, now) : null }
+  }
+  if (childProfile.bedtimeUntil !== undefined && now < childProfile.bedtimeUntil) {
+    return { isAvailable: false, nextOpening: childProfile.bedtimeUntil }
+  }
+  // A running session counts down its own budget; this only keeps a spent day from starting again
+  if (!gameState.isPlaying && getPlayedToday(state, now) >= getTodayBudget(state, now)) {
+    return { isAvailable: false, nextOpening: getNextPlayDay(settings.playSchedule, now) }
+  }
+  return { isAvailable: true, nextOpening: null }
+}
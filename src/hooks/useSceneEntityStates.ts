@@ -0,0 +1,75 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import type { CharacterAnimation, CharacterExpression } from '../components/CharacterRenderer'
+import type { ToyInteraction } from '../components/ToyRenderer'
+
+// Keyed variant of useCharacterState for scenes whose cast comes from config
+export const useCharacterStates = () => {
+  const [expressions, setExpressions] = useState<Record<string, CharacterExpression>>({})
+  const [animations, setAnimations] = useState<Record<string, CharacterAnimation>>({})
+  // Latest timer per character, so an earlier reaction cannot overwrite a newer one
+  const expressionTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
+  const animationTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({})
+
+  useEffect(() => {
+    const timers = [expressionTimers.current, animationTimers.current]
+    return () => timers.forEach(group => Object.values(group).forEach(clearTimeout))
+  }, [])
+
+  const changeExpression = (
+    characterId: string,
+    newExpression: CharacterExpression,
+    duration: number = 2000,
+    restingExpression: CharacterExpression = 'neutral'
+  ) => {
+    setExpressions(prev => ({ ...prev, [characterId]: newExpression }))
+
+    clearTimeout(expressionTimers.current[characterId])
+    expressionTimers.current[characterId] = setTimeout(() => {
+      setExpressions(prev => ({ ...prev, [characterId]: restingExpression }))
+    }, duration)
+  }
+
+  // Stable across renders, so scenes can trigger animations from their own timers
+  const triggerAnimation = useCallback((characterId: string, animation: CharacterAnimation, duration: number = 1000) => {
+    setAnimations(prev => ({ ...prev, [characterId]: animation }))
+
+    clearTimeout(animationTimers.current[characterId])
+    animationTimers.current[characterId] = setTimeout(() => {
+      setAnimations(prev => ({ ...prev, [characterId]: 'idle' }))
+    }, duration)
+  }, [])
+
+  return {
+    getExpression: (characterId: string): CharacterExpression => expressions[characterId] ?? 'neutral',
+    getAnimation: (characterId: string): CharacterAnimation => animations[characterId] ?? 'idle',
+    changeExpression,
+    triggerAnimation
+  }
+}
+
+// Keyed variant of useToyInteraction for scenes whose toys come from config
+export const useToyInteractions = () => {
+  const [interactions, setInteractions] = useState<Record<string, ToyInteraction>>({})
+
+  const setInteraction = (toyId: string, interaction: ToyInteraction) => {
+    setInteractions(prev => ({ ...prev, [toyId]: interaction }))
+  }
+
+  const shareToy = (toyId: string) => {
+    setInteraction(toyId, 'share')
+    setTimeout(() => setInteraction(toyId, 'idle'), 300)
+  }
+
+  const bounceToy = (toyId: string) => {
+    setInteraction(toyId, 'bounce')
+    setTimeout(() => setInteraction(toyId, 'idle'), 400)
+  }
+
+  return {
+    getInteraction: (toyId: string): ToyInteraction => interactions[toyId] ?? 'idle',
+    startDrag: (toyId: string) => setInteraction(toyId, 'drag'),
+    endDrag: (toyId: string) => setInteraction(toyId, 'idle'),
+    shareToy,
+    bounceToy
+  }
+}
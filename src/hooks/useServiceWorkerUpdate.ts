@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react'
+import { serviceWorkerManager } from '../utils/serviceWorker'
+
+// Whether a newer version of the app is installed and waiting; checks for one on mount
+export function useServiceWorkerUpdate() {
+  const [updateAvailable, setUpdateAvailable] = useState(() => serviceWorkerManager.isUpdateAvailable())
+
+  useEffect(() => {
+    const unsubscribe = serviceWorkerManager.subscribe(setUpdateAvailable)
+    serviceWorkerManager.checkForUpdate()
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  return {
+    updateAvailable,
+    applyUpdate: () => serviceWorkerManager.applyUpdate()
+  }
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react'
+import { sessionTimer, SessionTimerSnapshot } from '../utils/sessionTimer'
+import { useAppConfig } from './useAppConfig'
+
+// Re-renders on every tick of the shared session timer
+export function useSessionTimer(): SessionTimerSnapshot {
+  const [snapshot, setSnapshot] = useState(() => sessionTimer.getSnapshot())
+
+  useEffect(() => {
+    const unsubscribe = sessionTimer.subscribe(event => setSnapshot(event.snapshot))
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  return snapshot
+}
+
+// From the time warning until the child says goodnight, while the wind-down flow is enabled
+export function useIsWindingDown(): boolean {
+  const { phase } = useSessionTimer()
+  const { windDown } = useAppConfig().timeManagement
+  return windDown.enabled && phase !== 'idle' && phase !== 'running'
+}
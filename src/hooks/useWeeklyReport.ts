@@ -0,0 +1,52 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useAppStore } from '../store/appStore'
+import { configManager } from '../config/appConfig'
+import { eventLog, BehaviorEvent, DailyAggregate } from '../utils/eventLog'
+import { buildWeeklyReport, WeeklyReport } from '../game/weeklyReport'
+
+interface ReportSource {
+  events: BehaviorEvent[]
+  aggregates: DailyAggregate[]
+  loadedAt: number
+}
+
+// The active child's report for the last 7 days, rebuilt whenever the log changes
+export function useWeeklyReport(): WeeklyReport {
+  const { activeProfileId, childProfile } = useAppStore()
+  const [source, setSource] = useState<ReportSource>(() => ({ events: [], aggregates: [], loadedAt: Date.now() }))
+
+  useEffect(() => {
+    if (!activeProfileId) {
+      setSource({ events: [], aggregates: [], loadedAt: Date.now() })
+      return
+    }
+
+    let isCurrent = true
+    const load = () => {
+      Promise.all([eventLog.query({ profileId: activeProfileId }), eventLog.getDailyAggregates(activeProfileId)])
+        .then(([events, aggregates]) => {
+          if (isCurrent) setSource({ events, aggregates, loadedAt: Date.now() })
+        })
+        .catch(error => console.warn('Failed to read behavior log:', error))
+    }
+
+    load()
+    const unsubscribe = eventLog.subscribe(load)
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
+  }, [activeProfileId])
+
+  return useMemo(() => {
+    const { interestCalculationWindow, interestDecayRate, interestRules } = configManager.getConfig().behaviorTracking
+    return buildWeeklyReport({
+      ledger: childProfile.dailyPlayTime,
+      events: source.events,
+      aggregates: source.aggregates,
+      model: { rules: interestRules, decayRate: interestDecayRate },
+      window: interestCalculationWindow,
+      now: source.loadedAt
+    })
+  }, [childProfile.dailyPlayTime, source])
+}
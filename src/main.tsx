@@ -1,8 +1,16 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import { assetManager } from './utils/assetManager'
+import { serviceWorkerManager } from './utils/serviceWorker'
 import './index.css'
 
+// Scenes render straight away; asset loads wait for the manifest and emoji cover the gap
+assetManager.loadManifest()
+
+// Offline play needs the built service worker, which only exists in production builds
+if (import.meta.env.PROD) serviceWorkerManager.register()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
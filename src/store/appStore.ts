@@ -1,28 +1,77 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import {
+  GardenState,
+  HarvestResult,
+  PlantType,
+  createInitialGarden,
+  plantSeed as plantSeedInGarden,
+  waterPlot,
+  harvestPlot,
+  decoratePlot as decoratePlotInGarden,
+  advanceGarden
+} from '../game/gardenSimulation'
+import { configManager } from '../config/appConfig'
+import { PlayTimeLedger, addPlayTime, addGrantedTime, getDailyBudget, getDateKey, getPlayedOn } from '../utils/playTimeLedger'
+import { PlaySchedule, getNextPlayDay } from '../utils/playSchedule'
+import { eventLog } from '../utils/eventLog'
+import { InterestTrendDirection, getInterestTrends, updateInterestTags } from '../game/interestEngine'
 
 export interface ChildBehavior {
   timestamp: number
-  action: 'share' | 'help' | 'care' | 'explore' | 'create'
+  // reconcile: sharing with a friend who felt left out; play: playing with a toy on its own
+  action: 'share' | 'reconcile' | 'help' | 'care' | 'explore' | 'create' | 'play'
   scene: 'home' | 'garden' | 'town'
-  object?: string
+  object?: string // the subject of the action, e.g. the toy that was shared
+  targetId?: string // who received it, e.g. the friend the toy went to
   duration?: number
+  origin?: ItemOrigin // where a shared item was made, e.g. harvested in the garden
+}
+
+export interface ItemOrigin {
+  scene: ChildBehavior['scene']
+  source: string // e.g. `${plantType}:${plotId}` for garden produce
+  createdAt: number
+}
+
+// Items the child carries between scenes, such as produce harvested in the garden
+export interface InventoryItem {
+  id: string // unique per item instance
+  itemId: string // e.g. 'apple', matches HarvestConfig.produceId
+  name: string
+  emoji: string
+  origin: ItemOrigin
 }
 
 export interface InterestTag {
   category: 'music' | 'hands_on' | 'care' | 'social' | 'exploration'
-  score: number
+  score: number // decayed, see game/interestEngine
   lastActive: number
+  trend?: InterestTrendDirection
 }
 
 export interface ChildProfile {
   name: string
   age: number // 2, 3, or 4
-  interests: InterestTag[]
-  behaviors: ChildBehavior[]
+  interests: InterestTag[] // behaviour history itself lives in the event log
   totalPlayTime: number
+  dailyPlayTime: PlayTimeLedger // played ms per local calendar day, drives the daily limit
+  timeExtensions?: PlayTimeLedger // extra ms a parent granted per day, on top of the daily limit
   sessionCount: number
   lastSessionEnd: number
+  bedtimeUntil?: number // after saying goodnight, play stays locked until this moment
+  suggestionFeedback?: Record<string, SuggestionFeedback> // parent's verdict per co-play suggestion id
+  suggestionHistory?: Record<string, number> // suggestion id -> when it was last shown to the parent
+}
+
+export type SuggestionFeedback = 'tried' | 'not_for_us'
+
+// A saved child: their profile plus their own garden and inventory
+export interface ProfileRecord {
+  id: string
+  profile: ChildProfile
+  garden: GardenState
+  inventory: InventoryItem[]
 }
 
 export interface AppSettings {
@@ -30,47 +79,90 @@ export interface AppSettings {
   soundEnabled: boolean
   vibrationEnabled: boolean
   parentMode: boolean
+  parentPin?: string // 4-digit adult gate PIN; without one the gate uses the hold-and-sum challenge
+  playSchedule?: PlaySchedule // allowed play windows per weekday; unset means any time
 }
 
 export interface GameState {
   currentScene: 'town' | 'home' | 'garden'
+  pendingScene: 'town' | 'home' | 'garden' | null // waiting behind the scene transition for its assets
+  sceneEnteredAt: number
+  sessionId: string // groups this session's events in the log; '' between sessions
   sessionStartTime: number
   sessionPlayTime: number
   isPlaying: boolean
+  lastPlayTimeCommit: number // play time before this moment is already in dailyPlayTime
   draggedItem: string | null
   interactions: Record<string, number>
 }
 
 interface AppStore {
+  // childProfile, garden and inventory hold the active child; the others wait in profiles
   childProfile: ChildProfile
   settings: AppSettings
   gameState: GameState
+  garden: GardenState
+  inventory: InventoryItem[]
+  profiles: ProfileRecord[]
+  activeProfileId: string | null
   
   // Actions
   initializeChild: (name: string, age: number) => void
+  addProfile: (name: string, age: number) => string
+  switchProfile: (profileId: string) => void
+  updateProfile: (profileId: string, updates: Partial<Pick<ChildProfile, 'name' | 'age'>>) => void
+  removeProfile: (profileId: string) => void
   recordBehavior: (behavior: Omit<ChildBehavior, 'timestamp'>) => void
-  updateInterests: () => void
+  updateInterests: () => Promise<void>
+  goToScene: (scene: 'town' | 'home' | 'garden') => void
   setCurrentScene: (scene: 'town' | 'home' | 'garden') => void
   startSession: () => void
   endSession: () => void
+  goToBed: () => void
   setDraggedItem: (item: string | null) => void
   recordInteraction: (item: string) => void
   updateSettings: (settings: Partial<AppSettings>) => void
   resetDailyTime: () => void
+  grantExtraTime: (minutes: number) => void
+  markSuggestion: (suggestionId: string, feedback: SuggestionFeedback | null) => void
+  recordSuggestionsShown: (suggestionIds: string[]) => void
+  commitPlayTime: () => void
+  plantSeed: (plotId: string, plantType: PlantType) => void
+  waterPlant: (plotId: string) => void
+  harvestPlant: (plotId: string) => HarvestResult['harvest']
+  giveInventoryItem: (itemId: string, characterId: string, action?: 'share' | 'reconcile') => void
+  decoratePlot: (plotId: string, decorationId: string) => void
+  arrangeBouquet: () => InventoryItem | null
+  updateGardenGrowth: () => void
 }
 
+const createEmptyProfile = (): ChildProfile => ({
+  name: '',
+  age: 3,
+  interests: [],
+  totalPlayTime: 0,
+  dailyPlayTime: {},
+  sessionCount: 0,
+  lastSessionEnd: 0
+})
+
+const INTEREST_TREND_DAYS = 14 // matches how long the event log keeps raw events
+const INTEREST_UPDATE_DELAY = 5 * 1000 // a burst of taps reads the event log once
+
+let interestUpdateTimer: ReturnType<typeof setTimeout> | null = null
+
+const createInitialInterests = (): InterestTag[] => [
+  { category: 'music', score: 0, lastActive: 0 },
+  { category: 'hands_on', score: 0, lastActive: 0 },
+  { category: 'care', score: 0, lastActive: 0 },
+  { category: 'social', score: 0, lastActive: 0 },
+  { category: 'exploration', score: 0, lastActive: 0 }
+]
+
 export const useAppStore = create<AppStore>()(
   persist(
     (set, get) => ({
-      childProfile: {
-        name: '',
-        age: 3,
-        interests: [],
-        behaviors: [],
-        totalPlayTime: 0,
-        sessionCount: 0,
-        lastSessionEnd: 0
-      },
+      childProfile: createEmptyProfile(),
       settings: {
         dailyTimeLimit: 15, // 15 minutes default
         soundEnabled: true,
@@ -79,109 +171,160 @@ export const useAppStore = create<AppStore>()(
       },
       gameState: {
         currentScene: 'town',
+        pendingScene: null,
+        sceneEnteredAt: Date.now(),
+        sessionId: '',
         sessionStartTime: 0,
         sessionPlayTime: 0,
         isPlaying: false,
+        lastPlayTimeCommit: 0,
         draggedItem: null,
         interactions: {}
       },
+      garden: createInitialGarden(),
+      inventory: [],
+      profiles: [],
+      activeProfileId: null,
 
       initializeChild: (name: string, age: number) => {
+        get().switchProfile(get().addProfile(name, age))
+      },
+
+      addProfile: (name: string, age: number) => {
+        const id = `child_${Date.now()}`
+        const record: ProfileRecord = {
+          id,
+          profile: { ...createEmptyProfile(), name, age, interests: createInitialInterests() },
+          garden: createInitialGarden(),
+          inventory: []
+        }
+
+        set(state => ({ profiles: [...state.profiles, record] }))
+        return id
+      },
+
+      switchProfile: (profileId: string) => {
+        const state = get()
+        const target = state.profiles.find(record => record.id === profileId)
+        if (!target || profileId === state.activeProfileId) return
+
+        // Close the current child's session so their play time is saved with their profile
+        if (state.gameState.isPlaying) state.endSession()
+
         set(state => ({
-          childProfile: {
-            ...state.childProfile,
-            name,
-            age,
-            interests: [
-              { category: 'music', score: 0, lastActive: 0 },
-              { category: 'hands_on', score: 0, lastActive: 0 },
-              { category: 'care', score: 0, lastActive: 0 },
-              { category: 'social', score: 0, lastActive: 0 },
-              { category: 'exploration', score: 0, lastActive: 0 }
-            ]
-          }
+          profiles: getProfileRecords(state),
+          activeProfileId: target.id,
+          childProfile: target.profile,
+          garden: target.garden,
+          inventory: target.inventory,
+          gameState: { ...state.gameState, currentScene: 'town', pendingScene: null, draggedItem: null, interactions: {} }
         }))
       },
 
-      recordBehavior: (behavior: Omit<ChildBehavior, 'timestamp'>) => {
-        const timestamp = Date.now()
+      updateProfile: (profileId: string, updates: Partial<Pick<ChildProfile, 'name' | 'age'>>) => {
         set(state => ({
-          childProfile: {
-            ...state.childProfile,
-            behaviors: [...state.childProfile.behaviors, { ...behavior, timestamp }].slice(-100) // Keep last 100 behaviors
-          }
+          profiles: state.profiles.map(record =>
+            record.id === profileId ? { ...record, profile: { ...record.profile, ...updates } } : record
+          ),
+          ...(profileId === state.activeProfileId && {
+            childProfile: { ...state.childProfile, ...updates }
+          })
         }))
-        
-        // Update interests based on behavior
-        get().updateInterests()
       },
 
-      updateInterests: () => {
+      removeProfile: (profileId: string) => {
         const state = get()
-        const recentBehaviors = state.childProfile.behaviors.slice(-20) // Last 20 behaviors
-        
-        const interestScores: Record<string, number> = {
-          music: 0,
-          hands_on: 0,
-          care: 0,
-          social: 0,
-          exploration: 0
-        }
+        const remaining = state.profiles.filter(record => record.id !== profileId)
+        eventLog.clearProfile(profileId).catch(error => console.warn('Failed to clear behavior log:', error))
 
-        recentBehaviors.forEach(behavior => {
-          switch (behavior.action) {
-            case 'share':
-            case 'help':
-              interestScores.social += 1
-              interestScores.care += 0.5
-              break
-            case 'care':
-              interestScores.care += 1
-              break
-            case 'explore':
-              interestScores.exploration += 1
-              break
-            case 'create':
-              interestScores.hands_on += 1
-              break
-          }
+        if (profileId !== state.activeProfileId) {
+          set({ profiles: remaining })
+          return
+        }
 
-          // Scene-based scoring
-          if (behavior.scene === 'home' && (behavior.action === 'share' || behavior.action === 'help')) {
-            interestScores.social += 0.5
-          }
-          if (behavior.scene === 'garden' && behavior.action === 'care') {
-            interestScores.care += 0.5
-            interestScores.hands_on += 0.3
-          }
+        // Removing the active child hands over to the next one, or back to first-run setup
+        if (state.gameState.isPlaying) state.endSession()
+        const next = remaining[0]
+        set({
+          profiles: remaining,
+          activeProfileId: next?.id ?? null,
+          childProfile: next?.profile ?? createEmptyProfile(),
+          garden: next?.garden ?? createInitialGarden(),
+          inventory: next?.inventory ?? []
         })
+      },
 
-        const updatedInterests = state.childProfile.interests.map(interest => ({
-          ...interest,
-          score: interestScores[interest.category] || 0,
-          lastActive: interestScores[interest.category] > 0 ? Date.now() : interest.lastActive
-        }))
+      recordBehavior: (behavior: Omit<ChildBehavior, 'timestamp'>) => {
+        const { activeProfileId, gameState } = get()
+        if (!activeProfileId) return
+
+        const { action, object, ...details } = behavior
+        eventLog
+          .append({ ...details, type: action, subjectId: object, profileId: activeProfileId, sessionId: gameState.sessionId, timestamp: Date.now() })
+          // Update interests based on behavior, once the child pauses
+          .then(() => {
+            if (interestUpdateTimer) clearTimeout(interestUpdateTimer)
+            interestUpdateTimer = setTimeout(() => {
+              interestUpdateTimer = null
+              get().updateInterests().catch(error => console.warn('Failed to update interests:', error))
+            }, INTEREST_UPDATE_DELAY)
+          })
+          .catch(error => console.warn('Failed to record behavior:', error))
+      },
+
+      updateInterests: async () => {
+        const profileId = get().activeProfileId
+        if (!profileId) return
 
+        const { interestCalculationWindow, interestDecayRate, interestRules } = configManager.getConfig().behaviorTracking
+        const now = Date.now()
+        const [recentEvents, trendEvents] = await Promise.all([
+          eventLog.query({ profileId, limit: interestCalculationWindow }),
+          eventLog.query({ profileId, since: now - INTEREST_TREND_DAYS * 24 * 60 * 60 * 1000 })
+        ])
+        // The child may have been switched while the log was read
+        if (get().activeProfileId !== profileId) return
+
+        const trends = getInterestTrends(trendEvents, interestRules, now, INTEREST_TREND_DAYS)
         set(state => ({
           childProfile: {
             ...state.childProfile,
-            interests: updatedInterests
+            interests: updateInterestTags(
+              state.childProfile.interests,
+              recentEvents,
+              trends,
+              { rules: interestRules, decayRate: interestDecayRate },
+              now
+            )
           }
         }))
       },
 
+      // Starts the scene transition, which calls setCurrentScene once the scene's assets are ready
+      goToScene: (scene: 'town' | 'home' | 'garden') => {
+        const { currentScene, pendingScene } = get().gameState
+        if (scene === currentScene || pendingScene) return
+        set(state => ({ gameState: { ...state.gameState, pendingScene: scene } }))
+      },
+
       setCurrentScene: (scene: 'town' | 'home' | 'garden') => {
+        const now = Date.now()
+        const { currentScene: previousScene, sceneEnteredAt } = get().gameState
         set(state => ({
           gameState: {
             ...state.gameState,
-            currentScene: scene
+            currentScene: scene,
+            pendingScene: null,
+            sceneEnteredAt: now
           }
         }))
         
-        // Record exploration behavior
+        // Record exploration behavior, with how long the child stayed in the scene they left
         get().recordBehavior({
           action: 'explore',
-          scene: scene === 'town' ? 'town' : scene
+          scene: scene === 'town' ? 'town' : scene,
+          object: previousScene,
+          duration: now - sceneEnteredAt
         })
       },
 
@@ -190,15 +333,31 @@ export const useAppStore = create<AppStore>()(
         set(state => ({
           gameState: {
             ...state.gameState,
+            sessionId: `session_${startTime}`,
+            sceneEnteredAt: startTime,
             sessionStartTime: startTime,
             sessionPlayTime: 0,
             isPlaying: true,
+            lastPlayTimeCommit: startTime,
             interactions: {}
           }
         }))
+
+        // Keep the log small: older history only needs daily totals
+        const { activeProfileId } = get()
+        if (activeProfileId) {
+          eventLog.compact(activeProfileId, startTime).catch(error => console.warn('Failed to compact behavior log:', error))
+        }
       },
 
       endSession: () => {
+        // Interests still waiting on the last taps are brought up to date before the session closes
+        if (interestUpdateTimer) {
+          clearTimeout(interestUpdateTimer)
+          interestUpdateTimer = null
+          get().updateInterests().catch(error => console.warn('Failed to update interests:', error))
+        }
+        get().commitPlayTime()
         const state = get()
         const sessionDuration = Date.now() - state.gameState.sessionStartTime
         
@@ -212,11 +371,23 @@ export const useAppStore = create<AppStore>()(
           gameState: {
             ...state.gameState,
             isPlaying: false,
+            sessionId: '',
             sessionPlayTime: 0
           }
         }))
       },
 
+      goToBed: () => {
+        // Saying goodnight ends the day, even if some of the budget is left
+        if (get().gameState.isPlaying) get().endSession()
+        set(state => ({
+          childProfile: {
+            ...state.childProfile,
+            bedtimeUntil: getNextPlayDay(state.settings.playSchedule, Date.now())
+          }
+        }))
+      },
+
       setDraggedItem: (item: string | null) => {
         set(state => ({
           gameState: {
@@ -248,20 +419,230 @@ export const useAppStore = create<AppStore>()(
       },
 
       resetDailyTime: () => {
-        // This would be called daily to reset play time tracking
+        // Clears today's entry only; earlier days stay in the ledger for the parent dashboard
+        const today = getDateKey(Date.now())
+        set(state => {
+          const dailyPlayTime = { ...state.childProfile.dailyPlayTime }
+          delete dailyPlayTime[today]
+          const timeExtensions = { ...state.childProfile.timeExtensions }
+          delete timeExtensions[today]
+          return {
+            childProfile: { ...state.childProfile, dailyPlayTime, timeExtensions, bedtimeUntil: undefined },
+            gameState: { ...state.gameState, lastPlayTimeCommit: Date.now() }
+          }
+        })
+      },
+
+      // Extends today's budget only; the daily limit itself stays as the parent set it
+      grantExtraTime: (minutes: number) => {
         set(state => ({
           childProfile: {
             ...state.childProfile,
-            totalPlayTime: 0
+            timeExtensions: addGrantedTime(state.childProfile.timeExtensions ?? {}, Date.now(), minutes * 60 * 1000)
           }
         }))
+      },
+
+      // Passing null takes the parent's verdict back
+      markSuggestion: (suggestionId: string, feedback: SuggestionFeedback | null) => {
+        set(state => {
+          const suggestionFeedback = { ...state.childProfile.suggestionFeedback }
+          if (feedback) {
+            suggestionFeedback[suggestionId] = feedback
+          } else {
+            delete suggestionFeedback[suggestionId]
+          }
+          return { childProfile: { ...state.childProfile, suggestionFeedback } }
+        })
+      },
+
+      recordSuggestionsShown: (suggestionIds: string[]) => {
+        const now = Date.now()
+        const history = get().childProfile.suggestionHistory ?? {}
+        // Already shown today: leave the profile untouched so views reading it do not re-render
+        const today = getDateKey(now)
+        if (suggestionIds.every(id => history[id] !== undefined && getDateKey(history[id]) === today)) return
+
+        set(state => ({
+          childProfile: {
+            ...state.childProfile,
+            suggestionHistory: {
+              ...state.childProfile.suggestionHistory,
+              ...Object.fromEntries(suggestionIds.map(id => [id, now]))
+            }
+          }
+        }))
+      },
+
+      commitPlayTime: () => {
+        const { gameState } = get()
+        if (!gameState.isPlaying) return
+
+        const now = Date.now()
+        set(state => ({
+          childProfile: {
+            ...state.childProfile,
+            dailyPlayTime: addPlayTime(state.childProfile.dailyPlayTime, state.gameState.lastPlayTimeCommit, now)
+          },
+          gameState: { ...state.gameState, lastPlayTimeCommit: now }
+        }))
+      },
+
+      plantSeed: (plotId: string, plantType: PlantType) => {
+        set(state => ({ garden: plantSeedInGarden(state.garden, plotId, plantType, Date.now()) }))
+      },
+
+      waterPlant: (plotId: string) => {
+        set(state => ({ garden: waterPlot(state.garden, plotId, Date.now()) }))
+      },
+
+      harvestPlant: (plotId: string) => {
+        const now = Date.now()
+        const { garden, harvest } = harvestPlot(get().garden, plotId, now)
+        if (!harvest) return null
+
+        const produce: InventoryItem[] = Array.from({ length: harvest.produceCount }, (_, i) => ({
+          id: `${harvest.produceId}_${now}_${i}`,
+          itemId: harvest.produceId,
+          name: harvest.produceName,
+          emoji: harvest.produceEmoji,
+          origin: { scene: 'garden', source: `${harvest.plantType}:${harvest.plotId}`, createdAt: now }
+        }))
+
+        set(state => ({ garden, inventory: [...state.inventory, ...produce] }))
+        return harvest
+      },
+
+      giveInventoryItem: (itemId: string, characterId: string, action: 'share' | 'reconcile' = 'share') => {
+        const item = get().inventory.find(i => i.id === itemId)
+        if (!item) return
+
+        set(state => ({ inventory: state.inventory.filter(i => i.id !== itemId) }))
+
+        get().recordBehavior({
+          action,
+          scene: 'home',
+          object: item.itemId,
+          targetId: characterId,
+          origin: item.origin
+        })
+      },
+
+      decoratePlot: (plotId: string, decorationId: string) => {
+        set(state => ({ garden: decoratePlotInGarden(state.garden, plotId, decorationId, Date.now()) }))
+      },
+
+      // Turns harvested flowers into one bouquet; null until there are enough flowers
+      arrangeBouquet: () => {
+        const { bouquet } = configManager.getConfig().scenes.garden
+        const flowers = get().inventory.filter(item => item.itemId === bouquet.produceId).slice(0, bouquet.size)
+        if (flowers.length < bouquet.size) return null
+
+        const now = Date.now()
+        const item: InventoryItem = {
+          id: `${bouquet.itemId}_${now}`,
+          itemId: bouquet.itemId,
+          name: bouquet.name,
+          emoji: bouquet.emoji,
+          origin: { scene: 'garden', source: 'bouquet', createdAt: now }
+        }
+        set(state => ({
+          inventory: [...state.inventory.filter(i => !flowers.includes(i)), item]
+        }))
+        return item
+      },
+
+      updateGardenGrowth: () => {
+        const { garden } = get()
+        const grownGarden = advanceGarden(garden, Date.now())
+
+        // Only commit (and persist) ticks where a stage actually changed
+        if (grownGarden !== garden) {
+          set({ garden: grownGarden })
+        }
       }
     }),
     {
       name: 'little-world-store',
+      version: 6,
+      migrate: (persistedState, version) => {
+        const state = persistedState as AppStore
+        if (version < 1 && state?.garden) {
+          // v0 plots grew on elapsed time alone; restart their growth from the seed
+          state.garden.plots = state.garden.plots.map(plot => ({
+            ...plot,
+            stage: plot.stage === 'empty' ? 'empty' : 'seed',
+            growthProgress: 0,
+            lastGrowthUpdate: Date.now()
+          }))
+        }
+        if (version < 2 && state?.garden) {
+          // v1 gardens had no seed tray yet
+          state.garden = { ...state.garden, seedInventory: createInitialGarden().seedInventory }
+        }
+        if (version < 3 && state) {
+          // v2 kept harvested produce in a garden-only basket; move it into the shared inventory
+          const { basket, ...garden } = (state.garden ?? {}) as GardenState & { basket?: Record<string, number> | null }
+          const plants = configManager.getConfig().scenes.garden.plants
+          state.inventory = Object.entries(basket ?? {}).flatMap(([produceId, count]) => {
+            const plant = plants.find(p => p.harvest.produceId === produceId)
+            return Array.from({ length: count }, (_, i) => ({
+              id: `${produceId}_migrated_${i}`,
+              itemId: produceId,
+              name: plant?.harvest.produceName ?? produceId,
+              emoji: plant?.harvest.produceEmoji ?? '🍓',
+              origin: { scene: 'garden' as const, source: plant?.type ?? 'garden', createdAt: Date.now() }
+            }))
+          })
+          if (state.garden) state.garden = garden
+        }
+        if (version < 4 && state) {
+          // v3 stored a single child; it becomes the first (and active) profile
+          const hasChild = Boolean(state.childProfile?.name)
+          const id = hasChild ? `child_${Date.now()}` : null
+          state.profiles = hasChild && id
+            ? [{ id, profile: state.childProfile, garden: state.garden ?? createInitialGarden(), inventory: state.inventory ?? [] }]
+            : []
+          state.activeProfileId = id
+        }
+        if (version < 5 && state?.childProfile) {
+          // v4 profiles had no per-day ledger; earlier play time only stays in totalPlayTime
+          state.childProfile = { ...state.childProfile, dailyPlayTime: {} }
+          state.profiles = (state.profiles ?? []).map(record => ({
+            ...record,
+            profile: { ...record.profile, dailyPlayTime: {} }
+          }))
+        }
+        if (version < 6 && state?.childProfile) {
+          // v5 kept the last 100 behaviors in the profile; move them into the event log
+          type LegacyProfile = ChildProfile & { behaviors?: ChildBehavior[] }
+          const moveToLog = (profileId: string | null, profile: LegacyProfile) => {
+            const { behaviors = [], ...rest } = profile
+            if (profileId) {
+              behaviors.forEach(({ action, object, timestamp, ...details }) => {
+                eventLog
+                  .append({ ...details, type: action, subjectId: object, profileId, sessionId: '', timestamp })
+                  .catch(error => console.warn('Failed to migrate behavior:', error))
+              })
+            }
+            return rest
+          }
+          state.profiles = (state.profiles ?? []).map(record => ({
+            ...record,
+            // The active child's live profile is newer than this copy; it is logged below instead
+            profile: moveToLog(record.id === state.activeProfileId ? null : record.id, record.profile)
+          }))
+          state.childProfile = moveToLog(state.activeProfileId, state.childProfile)
+        }
+        return state
+      },
       partialize: (state) => ({
         childProfile: state.childProfile,
-        settings: state.settings
+        settings: state.settings,
+        garden: state.garden,
+        inventory: state.inventory,
+        profiles: state.profiles,
+        activeProfileId: state.activeProfileId
         // Don't persist gameState as it's session-specific
       })
     }
@@ -269,6 +650,33 @@ export const useAppStore = create<AppStore>()(
 )
 
 // Utility functions
+
+// Today's play time for the active child, including the not yet committed part of the session
+export const getPlayedToday = (state: Pick<AppStore, 'childProfile' | 'gameState'>, now: number = Date.now()) => {
+  const { childProfile, gameState } = state
+  const committed = getPlayedOn(childProfile.dailyPlayTime, now)
+  if (!gameState.isPlaying) return committed
+
+  const pending = addPlayTime({}, gameState.lastPlayTimeCommit, now)
+  return committed + getPlayedOn(pending, now)
+}
+
+// Today's budget for the active child: the daily limit plus any extension granted today
+export const getTodayBudget = (state: Pick<AppStore, 'childProfile' | 'settings'>, now: number = Date.now()) => {
+  return getDailyBudget(state.settings.dailyTimeLimit, state.childProfile.timeExtensions, now)
+}
+
+// All saved children, with the active child's live data folded back into their record
+export const getProfileRecords = (
+  state: Pick<AppStore, 'profiles' | 'activeProfileId' | 'childProfile' | 'garden' | 'inventory'>
+): ProfileRecord[] => {
+  return state.profiles.map(record =>
+    record.id === state.activeProfileId
+      ? { ...record, profile: state.childProfile, garden: state.garden, inventory: state.inventory }
+      : record
+  )
+}
+
 export const getDominantInterests = (interests: InterestTag[]) => {
   return interests
     .filter(interest => interest.score > 0)
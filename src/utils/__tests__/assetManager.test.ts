@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { AssetManager } from '../assetManager'
+import type { AssetManifestFile, AssetMetadata } from '@/config/assetConfig'
+
+describe('AssetManager', () => {
+  const svg = (id: string, fileSize: number): AssetMetadata => ({
+    id,
+    name: id,
+    category: 'toys',
+    type: 'svg',
+    src: `data:image/svg+xml,<svg id="${id}"/>`,
+    alt: id,
+    fileSize,
+    version: '1.0.0',
+    createdAt: '',
+    updatedAt: '',
+    tags: [],
+    fallback: `${id}_emoji`
+  })
+  const emoji = (id: string): AssetMetadata => ({ ...svg(id, 0), type: 'emoji', src: '⚽', fallback: undefined })
+  const manifest: AssetManifestFile = {
+    version: '1.0.0',
+    categories: {
+      characters: { assets: [] },
+      toys: { assets: [svg('ball', 400 * 1024), svg('gift', 400 * 1024), svg('blocks', 400 * 1024)] },
+      backgrounds: { assets: [] },
+      animations: { assets: [] },
+      icons: { assets: [] }
+    },
+    fallbackAssets: { assets: [emoji('ball_emoji')] },
+    bundles: {
+      scenes: [
+        { id: 'shared', name: 'shared', priority: 'high', assets: ['ball'] },
+        { id: 'home', name: 'home', priority: 'medium', assets: ['ball', 'gift'] }
+      ]
+    }
+  }
+  const createManager = () => {
+    const manager = new AssetManager({ maxMemoryMB: 1, enablePreload: false })
+    manager.registerManifest(manifest)
+    return manager
+  }
+
+  it('registers manifest assets and sorts them by their highest bundle priority', () => {
+    const manager = createManager()
+    const strategy = manager.getLoadingStrategy()
+
+    expect(manager.getAssetsByCategory('toys').map(asset => asset.id)).toEqual(['ball', 'gift', 'blocks', 'ball_emoji'])
+    expect(strategy.immediate.map(asset => asset.id)).toEqual(['ball'])
+    expect(strategy.prefetch.map(asset => asset.id)).toEqual(['gift'])
+    expect(strategy.lazy.map(asset => asset.id)).toEqual(['blocks'])
+    expect(manager.getAssetUrl('ball_emoji')).toBe('')
+  })
+
+  it('evicts the least recently used asset once the memory cap is reached', async () => {
+    const manager = createManager()
+    await manager.loadAsset('ball')
+    await manager.loadAsset('gift')
+    await manager.loadAsset('ball') // ball is now more recent than gift
+    await manager.loadAsset('blocks')
+
+    expect(manager.isCached('gift')).toBe(false)
+    expect(manager.isCached('ball')).toBe(true)
+    expect(manager.getMemoryUsage().total).toBe(800)
+  })
+
+  it('never evicts assets a component is still showing', async () => {
+    const manager = createManager()
+    const release = manager.retain(['ball'])
+    await manager.loadAsset('ball')
+    await manager.loadAsset('gift')
+    await manager.loadAsset('blocks')
+
+    expect(manager.isCached('ball')).toBe(true)
+    expect(manager.isCached('gift')).toBe(false)
+
+    release()
+    await manager.loadAsset('gift')
+    expect(manager.isCached('ball')).toBe(false)
+  })
+
+  it('falls back to the emoji when the artwork cannot be loaded', async () => {
+    const manager = new AssetManager({ enablePreload: false })
+    manager.registerAsset({ ...svg('ball', 0), src: 'http://localhost:1/ball.svg' })
+    manager.registerAsset(emoji('ball_emoji'))
+
+    await expect(manager.loadAsset('ball')).resolves.toBe('⚽')
+    await expect(manager.loadAsset('unknown')).rejects.toThrow('Asset not found: unknown')
+  })
+
+  it('reports a scene bundle as ready once its files have loaded or failed', async () => {
+    const manager = new AssetManager({ enablePreload: false })
+    manager.registerAsset({ ...svg('ball', 0), src: 'http://localhost:1/ball.svg' })
+    manager.registerAsset(emoji('ball_emoji'))
+    manager.registerAsset(svg('gift', 1024))
+    manager.registerBundle({ id: 'home', name: 'home', priority: 'medium', assets: ['ball', 'gift'] })
+
+    expect(manager.getLoadingProgress('home')).toEqual({ loaded: 0, total: 2, percentage: 0 })
+    await manager.waitForBundle('home', 5000)
+    expect(manager.getLoadingProgress('home')).toEqual({ loaded: 2, total: 2, percentage: 100 })
+  })
+
+  it('treats elements as visible where IntersectionObserver is unavailable', () => {
+    const manager = new AssetManager({ enablePreload: false })
+    const changes: boolean[] = []
+
+    const stop = manager.observeVisibility({} as Element, visible => changes.push(visible))
+    expect(changes).toEqual([true])
+    stop()
+  })
+})
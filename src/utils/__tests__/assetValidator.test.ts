@@ -7,6 +7,8 @@ import {
   validateAssetFile, 
   validateAssetMetadata, 
   validateAccessibility,
+  validateAssetContent,
+  findOrphanedFiles,
   suggestFixes,
 
   type AssetValidationReport
@@ -210,4 +212,62 @@ describe('AssetValidator', () => {
       expect(fixes).toContain('Improve alt text to be more descriptive')
     })
   })
+
+  describe('validateAssetContent', () => {
+    const ball: AssetMetadata = {
+      id: 'ball',
+      name: '小球',
+      category: 'toys',
+      type: 'svg',
+      src: '/assets/toys/ball.svg',
+      alt: '彩色小球',
+      version: '1.0.0',
+      createdAt: '2025-11-22T00:00:00Z',
+      updatedAt: '2025-11-22T00:00:00Z',
+      tags: ['toy'],
+      fileSize: 120,
+      dimensions: { width: 32, height: 32 }
+    }
+    const bounce: AssetMetadata = { ...ball, id: 'bounce_anim', category: 'animations', type: 'lottie', src: '/assets/animations/bounce_anim.json', dimensions: undefined }
+
+    it('measures the SVG from its root element', () => {
+      const svg = '<svg viewBox="0 0 32 32" xmlns="http://www.w3.org/2000/svg"><circle r="8"/></svg>'
+      const report = validateAssetContent(ball, svg, 120)
+
+      expect(report.status).toBe('valid')
+      expect(report.file).toEqual({ byteSize: 120, dimensions: { width: 32, height: 32 } })
+      expect(report.validation.warnings).toEqual([])
+    })
+
+    it('reports missing attributes, undersized artwork and oversized files', () => {
+      const svg = '<svg width="8" height="8"><rect/></svg>'
+      const report = validateAssetContent(ball, svg, 60 * 1024)
+
+      expect(report.status).toBe('invalid')
+      expect(report.validation.errors).toEqual(expect.arrayContaining([
+        'SVG root is missing the viewBox attribute',
+        'SVG root is missing the xmlns attribute',
+        'Dimensions (8x8) are below minimum (16x16)',
+        'File size (60.0KB) exceeds maximum allowed (50.0KB)'
+      ]))
+      expect(report.validation.warnings).toContain('Manifest dimensions (32x32) do not match the file (8x8)')
+    })
+
+    it('checks lottie files for the required properties', () => {
+      const valid = JSON.stringify({ v: '5.7.4', fr: 30, ip: 0, op: 24, layers: [] })
+      expect(validateAssetContent(bounce, valid, 120).status).toBe('valid')
+
+      const report = validateAssetContent(bounce, JSON.stringify({ v: '5.7.4', fr: 30, ip: 0 }), 120)
+      expect(report.validation.errors).toEqual([
+        'Lottie file is missing the "op" property',
+        'Lottie file is missing the "layers" property'
+      ])
+      expect(validateAssetContent(bounce, '{ not json', 120).validation.errors).toEqual(['File is not valid JSON'])
+    })
+
+    it('lists files that no asset refers to', () => {
+      expect(findOrphanedFiles([ball, bounce], ['/assets/toys/old_ball.svg', '/assets/toys/ball.svg', '/assets/animations/bounce_anim.json']))
+        .toEqual(['/assets/toys/old_ball.svg'])
+    })
+  })
 })
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { parseDataBundle, findBundleConflicts, DATA_BUNDLE_FORMAT, DataBundle } from '../dataBundle'
+import type { AppSettings, ProfileRecord } from '../../store/appStore'
+import { createInitialGarden } from '../../game/gardenSimulation'
+
+describe('dataBundle', () => {
+  const settings: AppSettings = {
+    dailyTimeLimit: 15,
+    soundEnabled: true,
+    vibrationEnabled: false,
+    parentMode: true,
+    parentPin: '1234'
+  }
+  const record = (id: string, name: string, lastSessionEnd: number = 0): ProfileRecord => ({
+    id,
+    profile: { name, age: 3, interests: [], totalPlayTime: 0, dailyPlayTime: {}, sessionCount: 0, lastSessionEnd },
+    garden: createInitialGarden(),
+    inventory: []
+  })
+  const store = (profiles: ProfileRecord[]) => ({
+    state: {
+      childProfile: profiles[0].profile,
+      settings,
+      garden: profiles[0].garden,
+      inventory: profiles[0].inventory,
+      profiles,
+      activeProfileId: profiles[0].id
+    },
+    version: 6
+  })
+  const bundle = (overrides: Partial<DataBundle> = {}) => ({
+    format: DATA_BUNDLE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: 1000,
+    store: store([record('child_1', '小明')]),
+    behaviorLog: { events: [], aggregates: [] },
+    preferences: { accessibility: null, timerPosition: null },
+    ...overrides
+  })
+
+  it('rejects files that are not backups or come from a newer app', () => {
+    expect(parseDataBundle('not json', 6).errors).toHaveLength(1)
+    expect(parseDataBundle(JSON.stringify({ hello: 'world' }), 6).errors).toEqual(['这不是小世界的备份文件'])
+    expect(parseDataBundle(JSON.stringify(bundle({ schemaVersion: 2 })), 6).bundle).toBeNull()
+    expect(parseDataBundle(JSON.stringify(bundle()), 5).bundle).toBeNull()
+  })
+
+  it('upgrades a bare copy of the saved store from schema v0', () => {
+    const result = parseDataBundle(JSON.stringify(store([record('child_1', '小明')])), 6)
+
+    expect(result.errors).toEqual([])
+    expect(result.migratedFrom).toBe(0)
+    expect(result.bundle?.schemaVersion).toBe(1)
+    expect(result.bundle?.store.state.profiles?.[0].profile.name).toBe('小明')
+    expect(result.bundle?.behaviorLog).toEqual({ events: [], aggregates: [] })
+  })
+
+  it('drops behaviour records of children who are not in the backup', () => {
+    const event = (profileId: string) => ({ profileId, sessionId: '', type: 'share', scene: 'home', timestamp: 1 })
+    const result = parseDataBundle(JSON.stringify(bundle({
+      behaviorLog: { events: [event('child_1'), event('child_9')], aggregates: [] } as DataBundle['behaviorLog']
+    })), 6)
+
+    expect(result.bundle?.behaviorLog.events.map(e => e.profileId)).toEqual(['child_1'])
+    expect(result.warnings).toHaveLength(1)
+  })
+
+  it('reports the profiles and settings an import would overwrite', () => {
+    const { bundle: parsed } = parseDataBundle(JSON.stringify(bundle()), 6)
+    const conflicts = findBundleConflicts(parsed as DataBundle, {
+      profiles: [record('child_1', '小明', 5000), record('child_2', '小红')],
+      settings: { ...settings, parentPin: undefined }
+    })
+
+    expect(conflicts.map(conflict => conflict.kind)).toEqual(['profile_replaced', 'profile_removed', 'settings_changed'])
+    expect(conflicts[0].message).toContain('比备份更新')
+  })
+
+  it('matches the single child of a pre-v4 backup by name', () => {
+    const legacyStore = { state: { childProfile: record('', '小明').profile, settings, inventory: [] }, version: 3 }
+    const { bundle: parsed } = parseDataBundle(JSON.stringify(legacyStore), 6)
+    const conflicts = findBundleConflicts(parsed as DataBundle, {
+      profiles: [record('child_1', '小明'), record('child_2', '小红')],
+      settings
+    })
+
+    expect(conflicts.map(conflict => conflict.kind)).toEqual(['profile_replaced', 'profile_removed'])
+    expect(conflicts[1].message).toContain('旧版备份')
+  })
+
+  it('gives a child without a garden a new one and rejects a malformed garden', () => {
+    const withoutGarden: Partial<ProfileRecord> = record('child_2', '小红')
+    delete withoutGarden.garden
+    const result = parseDataBundle(JSON.stringify(bundle({
+      store: store([record('child_1', '小明'), withoutGarden as ProfileRecord])
+    })), 6)
+
+    expect(result.errors).toEqual([])
+    expect(result.warnings).toEqual(['备份里没有小红的花园，导入后会从新花园开始'])
+    expect(result.bundle?.store.state.profiles?.[1].garden).toEqual(expect.objectContaining({ plots: expect.any(Array) }))
+
+    const broken = { ...record('child_2', '小红'), garden: { plots: null } } as unknown as ProfileRecord
+    expect(parseDataBundle(JSON.stringify(bundle({ store: store([record('child_1', '小明'), broken]) })), 6).errors)
+      .toEqual(['备份里小红的花园格式不正确'])
+  })
+
+  it('rejects a pre-v4 backup without a usable child profile', () => {
+    const legacyStore = { state: { childProfile: record('', '小明').profile, settings, inventory: 'apples' }, version: 3 }
+
+    expect(parseDataBundle(JSON.stringify(legacyStore), 6).errors).toEqual(['备份里的孩子档案格式不正确'])
+    expect(parseDataBundle(JSON.stringify({ ...legacyStore, state: { settings } }), 6).errors).toHaveLength(1)
+  })
+})
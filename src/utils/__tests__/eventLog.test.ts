@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { aggregateEvents, summarizeBehavior, BehaviorEvent } from '../eventLog'
+
+describe('eventLog', () => {
+  const at = (day: number, hour: number) => new Date(2024, 5, day, hour).getTime()
+  const event = (overrides: Partial<BehaviorEvent>): BehaviorEvent => ({
+    profileId: 'child_1',
+    sessionId: 'session_1',
+    type: 'share',
+    scene: 'home',
+    timestamp: at(3, 9),
+    ...overrides
+  })
+
+  it('should aggregate events per profile and local day', () => {
+    const aggregates = aggregateEvents([
+      event({}),
+      event({ type: 'care', scene: 'garden', duration: 5000 }),
+      event({ timestamp: at(4, 9), sessionId: 'session_2' }),
+      event({ profileId: 'child_2' })
+    ])
+
+    expect(aggregates.map(aggregate => aggregate.key)).toEqual(['child_1:2024-06-03', 'child_2:2024-06-03', 'child_1:2024-06-04'])
+    expect(aggregates[0].counts).toEqual({ share: 1, care: 1 })
+    expect(aggregates[0].sceneCounts).toEqual({ home: 1, garden: 1 })
+    expect(aggregates[0].totalDuration).toBe(5000)
+  })
+
+  it('should fold new events into existing aggregates without changing them', () => {
+    const [existing] = aggregateEvents([event({})])
+    const [merged] = aggregateEvents([event({ sessionId: 'session_2' })], [existing])
+
+    expect(merged.counts.share).toBe(2)
+    expect(merged.sessionIds).toEqual(['session_1', 'session_2'])
+    expect(existing.counts.share).toBe(1)
+  })
+
+  it('should summarize compacted days together with raw events', () => {
+    const aggregates = aggregateEvents([event({}), event({ type: 'help' })])
+    const summary = summarizeBehavior(aggregates, [
+      event({ timestamp: at(10, 9), sessionId: 'session_2', type: 'reconcile' }),
+      event({ timestamp: at(10, 10), sessionId: '', type: 'explore', scene: 'town' })
+    ])
+
+    expect(summary.counts).toEqual({ share: 1, help: 1, reconcile: 1, explore: 1 })
+    expect(summary.sessionCount).toBe(2)
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { createDefaultSchedule, isWithinSchedule, getTimeUntilClose, getNextOpening, getNextPlayDay } from '../playSchedule'
+
+describe('playSchedule', () => {
+  // 2024-06-03 is a Monday
+  const at = (day: number, hour: number, minute: number = 0) => new Date(2024, 5, day, hour, minute).getTime()
+
+  it('should allow play at any time without a schedule', () => {
+    expect(isWithinSchedule(undefined, at(3, 23))).toBe(true)
+    expect(getTimeUntilClose(undefined, at(3, 23))).toBe(Infinity)
+  })
+
+  it('should allow play only inside the weekday window', () => {
+    const schedule = createDefaultSchedule()
+
+    expect(isWithinSchedule(schedule, at(3, 7, 59))).toBe(false)
+    expect(isWithinSchedule(schedule, at(3, 8))).toBe(true)
+    expect(isWithinSchedule(schedule, at(3, 19, 30))).toBe(false)
+  })
+
+  it('should count down to the end of the window', () => {
+    expect(getTimeUntilClose(createDefaultSchedule(), at(3, 19))).toBe(30 * 60 * 1000)
+  })
+
+  it('should find the next opening, skipping days without play', () => {
+    const schedule = createDefaultSchedule()
+    schedule[2] = { ...schedule[2], enabled: false } // Tuesday off
+
+    expect(getNextOpening(schedule, at(3, 6))).toBe(at(3, 8))
+    expect(getNextOpening(schedule, at(3, 20))).toBe(at(5, 8))
+  })
+
+  it('should reopen the next day once today is over', () => {
+    expect(getNextPlayDay(undefined, at(3, 10))).toBe(at(4, 0))
+    expect(getNextPlayDay(createDefaultSchedule(), at(3, 10))).toBe(at(4, 8))
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { addPlayTime, addGrantedTime, getDailyBudget, getDateKey, getPlayedOn, getRecentDays } from '../playTimeLedger'
+
+describe('playTimeLedger', () => {
+  const at = (day: number, hour: number, minute: number = 0) => new Date(2024, 5, day, hour, minute).getTime()
+  const minutes = (count: number) => count * 60 * 1000
+
+  it('should key days by local calendar date', () => {
+    expect(getDateKey(at(3, 9))).toBe('2024-06-03')
+  })
+
+  it('should add play time to the day it was played', () => {
+    const ledger = addPlayTime({}, at(3, 9), at(3, 9, 10))
+
+    expect(getPlayedOn(ledger, at(3, 12))).toBe(minutes(10))
+  })
+
+  it('should accumulate across sessions on the same day', () => {
+    let ledger = addPlayTime({}, at(3, 9), at(3, 9, 10))
+    ledger = addPlayTime(ledger, at(3, 18), at(3, 18, 5))
+
+    expect(getPlayedOn(ledger, at(3, 20))).toBe(minutes(15))
+  })
+
+  it('should split a session that crosses midnight', () => {
+    const ledger = addPlayTime({}, at(3, 23, 55), at(4, 0, 10))
+
+    expect(getPlayedOn(ledger, at(3, 12))).toBe(minutes(5))
+    expect(getPlayedOn(ledger, at(4, 12))).toBe(minutes(10))
+  })
+
+  it('should list recent days oldest first, including days without play', () => {
+    const ledger = addPlayTime({}, at(3, 9), at(3, 9, 10))
+    const days = getRecentDays(ledger, at(4, 12), 3)
+
+    expect(days.map(day => day.date)).toEqual(['2024-06-02', '2024-06-03', '2024-06-04'])
+    expect(days.map(day => day.playTime)).toEqual([0, minutes(10), 0])
+  })
+
+  it('should grant an extension for that day only', () => {
+    const granted = addGrantedTime({}, at(3, 9), minutes(5))
+
+    expect(getDailyBudget(15, granted, at(3, 20))).toBe(minutes(20))
+    expect(getDailyBudget(15, granted, at(4, 9))).toBe(minutes(15))
+  })
+
+  it('should drop history older than 90 days', () => {
+    let ledger = addPlayTime({}, at(1, 9), at(1, 9, 10))
+    ledger = addPlayTime(ledger, new Date(2024, 11, 1, 9).getTime(), new Date(2024, 11, 1, 9, 10).getTime())
+
+    expect(Object.keys(ledger)).toEqual(['2024-12-01'])
+  })
+})
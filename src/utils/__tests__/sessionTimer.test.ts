@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { sessionTimer, SessionTimerEvent } from '../sessionTimer'
+import { useAppStore } from '../../store/appStore'
+
+vi.mock('../../components/AudioManager', () => ({ handleAudioInteraction: vi.fn() }))
+
+describe('sessionTimer', () => {
+  const minutes = (count: number) => count * 60 * 1000
+  let events: SessionTimerEvent[] = []
+  let unsubscribe: () => void = () => {}
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2024, 5, 3, 10))
+    const now = Date.now()
+    useAppStore.setState(state => ({
+      settings: { ...state.settings, dailyTimeLimit: 15, playSchedule: undefined },
+      childProfile: { ...state.childProfile, dailyPlayTime: {}, timeExtensions: {}, bedtimeUntil: undefined },
+      gameState: { ...state.gameState, isPlaying: true, sessionStartTime: now, lastPlayTimeCommit: now }
+    }))
+    events = []
+    unsubscribe = sessionTimer.subscribe(event => events.push(event))
+  })
+
+  afterEach(() => {
+    unsubscribe()
+    sessionTimer.stop()
+    vi.useRealTimers()
+  })
+
+  it('should stay expired after ending early, without warning again', () => {
+    sessionTimer.start()
+    sessionTimer.endNow()
+    expect(events.filter(event => event.type === 'expired')).toHaveLength(1)
+
+    events = []
+    vi.advanceTimersByTime(5000)
+
+    expect(sessionTimer.getSnapshot().phase).toBe('expired')
+    expect(events.filter(event => event.type !== 'tick')).toEqual([])
+  })
+
+  it('should count down to the exit dialog while there is time left', () => {
+    sessionTimer.start()
+    vi.advanceTimersByTime(minutes(14) + 1000)
+
+    expect(sessionTimer.getSnapshot().phase).toBe('exit_dialog')
+    expect(events.filter(event => event.type !== 'tick').map(event => event.type)).toEqual(['warning', 'exit_dialog'])
+  })
+})
@@ -1,560 +1,428 @@
-// Advanced asset management system with lazy loading and bundle optimization
-// Implements UI motion plan requirements for resource management and performance
-
-export interface AssetConfig {
-  id: string
-  type: 'image' | 'svg' | 'lottie' | 'gltf' | 'audio'
-  src: string
-  url?: string
-  preload?: boolean
-  priority?: 'high' | 'medium' | 'low'
-  fallback?: string
-  size?: number // in KB
-  format?: string
-}
-
-export interface AssetBundle {
-  id: string
-  name: string
-  assets: AssetConfig[]
-  preload?: boolean
-  priority?: 'high' | 'medium' | 'low'
-  size?: number // total size in KB
-}
+// Asset management: loads public/assets/asset-manifest.json at startup, registers its
+// per-scene bundles and keeps loaded artwork in a memory-capped LRU cache
+import {
+  ASSET_MANIFEST_URL,
+  AssetBundleConfig,
+  AssetCategory,
+  AssetManifestFile,
+  AssetMetadata,
+  AssetPriority,
+  AssetType
+} from '../config/assetConfig'
+
+export type AssetBundle = AssetBundleConfig
 
 export interface LoadingStrategy {
-  immediate: AssetConfig[]    // Load immediately
-  lazy: AssetConfig[]          // Load when needed
-  prefetch: AssetConfig[]      // Load after immediate
-  idle: AssetConfig[]          // Load during idle time
-}
-
-export interface AssetCache {
-  images: Map<string, HTMLImageElement>
-  svgs: Map<string, string>
-  lotties: Map<string, unknown>
-  gltfs: Map<string, unknown>
-  audios: Map<string, HTMLAudioElement>
+  immediate: AssetMetadata[]   // High priority bundles, loaded at startup
+  prefetch: AssetMetadata[]    // Medium priority bundles, loaded while idle
+  idle: AssetMetadata[]        // Low priority bundles, loaded when a scene asks
+  lazy: AssetMetadata[]        // In no bundle, loaded when a component asks
 }
 
+// Estimated memory held by the cache, in KB
 export interface MemoryUsage {
   total: number
-  images: number
   svgs: number
   lotties: number
   gltfs: number
-  audios: number
 }
 
 export interface AssetManagerConfig {
   maxMemoryMB: number
-  enableCompression: boolean
-  enableWebP: boolean
-  enableLazyLoading: boolean
   enableCache: boolean
   enablePreload: boolean
-  chunkSize: number // KB per chunk
 }
 
-class AssetManager {
-  private cache: AssetCache
-  private bundles: Map<string, AssetBundle>
-  private loadingPromises: Map<string, Promise<unknown>>
+interface CachedAsset {
+  data: unknown
+  type: AssetType
+  size: number // KB
+}
+
+const MEMORY_KEYS: Record<Exclude<AssetType, 'emoji'>, Exclude<keyof MemoryUsage, 'total'>> = {
+  svg: 'svgs',
+  lottie: 'lotties',
+  gltf: 'gltfs'
+}
+
+const PRIORITY_ORDER: AssetPriority[] = ['high', 'medium', 'low']
+
+const emptyMemoryUsage = (): MemoryUsage => ({ total: 0, svgs: 0, lotties: 0, gltfs: 0 })
+
+export class AssetManager {
+  private assets = new Map<string, AssetMetadata>()
+  private categories = new Map<AssetCategory, string[]>()
+  private bundles = new Map<string, AssetBundle>()
+  // Map order doubles as recency: the first entry is the least recently used
+  private cache = new Map<string, CachedAsset>()
+  private retained = new Map<string, number>()
+  private unavailable = new Set<string>() // files that failed to load; their fallbacks stand in
+  private loadingPromises = new Map<string, Promise<unknown>>()
+  private manifestPromise: Promise<void> | null = null
+  private memoryUsage: MemoryUsage = emptyMemoryUsage()
   private config: AssetManagerConfig
-  private memoryUsage: MemoryUsage
-  private isInitialized = false
-  private intersectionObserver?: IntersectionObserver
   private idleCallbackId?: number
+  // One observer for every element that pauses work while offscreen
+  private intersectionObserver?: IntersectionObserver
+  private visibilityListeners = new Map<Element, (visible: boolean) => void>()
 
   constructor(config: Partial<AssetManagerConfig> = {}) {
     this.config = {
-      maxMemoryMB: 50, // 50MB max memory usage
-      enableCompression: true,
-      enableWebP: true,
-      enableLazyLoading: true,
+      maxMemoryMB: 50,
       enableCache: true,
       enablePreload: true,
-      chunkSize: 100, // 100KB chunks
       ...config
     }
-
-    this.cache = {
-      images: new Map(),
-      svgs: new Map(),
-      lotties: new Map(),
-      gltfs: new Map(),
-      audios: new Map()
-    }
-
-    this.bundles = new Map()
-    this.loadingPromises = new Map()
-    this.memoryUsage = {
-      total: 0,
-      images: 0,
-      svgs: 0,
-      lotties: 0,
-      gltfs: 0,
-      audios: 0
-    }
   }
 
-  // Initialize asset manager
-  initialize(): void {
-    if (this.isInitialized) return
-
-    // Setup intersection observer for lazy loading
-    if (this.config.enableLazyLoading && typeof IntersectionObserver !== 'undefined') {
-      this.setupIntersectionObserver()
-    }
-
-    // Setup idle callback for background loading
-    if (typeof window !== 'undefined' && 'requestIdleCallback' in window) {
-      this.setupIdleCallback()
-    }
-
-    // Setup WebP detection
-    if (this.config.enableWebP) {
-      this.detectWebPSupport()
+  // Fetch the manifest once; failures are logged and leave the renderers on their emoji
+  loadManifest(url: string = ASSET_MANIFEST_URL): Promise<void> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`Failed to load asset manifest: ${url}`)
+          return response.json() as Promise<AssetManifestFile>
+        })
+        .then(manifest => this.registerManifest(manifest))
+        .catch(error => console.warn('Failed to load asset manifest:', error))
     }
-
-    this.isInitialized = true
-    console.log('📦 Asset manager initialized')
+    return this.manifestPromise
   }
 
-  // Setup intersection observer for lazy loading
-  private setupIntersectionObserver(): void {
-    this.intersectionObserver = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          if (entry.isIntersecting) {
-            const element = entry.target as HTMLElement
-            const assetId = element.dataset.assetId
-            if (assetId) {
-              this.loadAsset(assetId)
-              this.intersectionObserver?.unobserve(element)
-            }
-          }
-        })
-      },
-      {
-        rootMargin: '50px', // Start loading 50px before entering viewport
-        threshold: 0.01
-      }
-    )
+  // Resolves once the manifest has been loaded (or has failed to load)
+  ready(): Promise<void> {
+    return this.manifestPromise ?? Promise.resolve()
   }
 
-  // Setup idle callback for background loading
-  private setupIdleCallback(): void {
-    const loadIdleAssets = () => {
-      const idleAssets = this.getIdleAssets()
-      if (idleAssets.length > 0) {
-        this.loadAssetBundle(idleAssets.slice(0, 5).map(asset => asset.id)) // Load max 5 assets per idle cycle
-      }
-    }
-
-    this.idleCallbackId = (window as any).requestIdleCallback(loadIdleAssets, { timeout: 1000 })
+  // Register every asset and scene bundle listed in a manifest file
+  registerManifest(manifest: AssetManifestFile): void {
+    Object.values(manifest.categories).forEach(category => {
+      category.assets.forEach(asset => this.registerAsset(asset))
+    })
+    manifest.fallbackAssets?.assets.forEach(asset => this.registerAsset(asset))
+    manifest.bundles?.scenes.forEach(bundle => this.registerBundle(bundle))
+    this.schedulePrefetch()
   }
 
-  // Detect WebP support
-  private detectWebPSupport(): Promise<boolean> {
-    return new Promise((resolve) => {
-      const webP = new Image()
-      webP.onload = webP.onerror = () => {
-        this.config.enableWebP = webP.height === 2
-        resolve(this.config.enableWebP)
-      }
-      webP.src = 'data:image/webp;base64,UklGRjoAAABXRUJQVlA4IC4AAACyAgCdASoCAAIALmk0mk0iIiIiIgBoSygABc6WWgAA/veff/0PP8bA//LwYAAA'
-    })
+  registerAsset(asset: AssetMetadata): void {
+    if (!this.assets.has(asset.id)) {
+      this.categories.set(asset.category, [...(this.categories.get(asset.category) ?? []), asset.id])
+    }
+    this.assets.set(asset.id, asset)
   }
 
-  // Register asset bundle
+  // Register asset bundle; high priority bundles start loading straight away
   registerBundle(bundle: AssetBundle): void {
+    const missing = bundle.assets.filter(id => !this.assets.has(id))
+    if (missing.length > 0) {
+      console.warn(`Bundle ${bundle.id} lists unknown assets: ${missing.join(', ')}`)
+    }
     this.bundles.set(bundle.id, bundle)
-    
-    // Preload high priority assets
+
     if (this.config.enablePreload && bundle.priority === 'high') {
       this.preloadBundle(bundle.id)
     }
   }
 
-  // Get asset by ID
-  getAsset(id: string): AssetConfig | undefined {
-    for (const bundle of this.bundles.values()) {
-      const asset = bundle.assets.find(a => a.id === id)
-      if (asset) return asset
-    }
-    return undefined
+  getAsset(id: string): AssetMetadata | undefined {
+    return this.assets.get(id)
   }
 
-  // Get asset URL
-  getAssetUrl(id: string): string {
-    const asset = this.getAsset(id)
-    return asset ? asset.url : ''
+  getAssetsByCategory(category: AssetCategory): AssetMetadata[] {
+    return (this.categories.get(category) ?? []).map(id => this.assets.get(id))
   }
 
-  // Load asset by ID
-  async preloadAsset(id: string): Promise<any> {
-    return this.loadAsset(id)
+  getBundle(id: string): AssetBundle | undefined {
+    return this.bundles.get(id)
   }
 
+  // URL of a file asset, or '' for emoji and unknown ids
+  getAssetUrl(id: string): string {
+    const asset = this.getAsset(id)
+    return asset && asset.type !== 'emoji' ? asset.src : ''
+  }
+
+  // Load asset data by id, falling back to the asset's fallback when the file fails
   async loadAsset(id: string): Promise<any> {
+    if (!this.assets.has(id)) await this.ready()
     const asset = this.getAsset(id)
     if (!asset) {
       throw new Error(`Asset not found: ${id}`)
     }
+    if (asset.type === 'emoji') return asset.src
+    // A file that failed once is not fetched again this session
+    if (this.unavailable.has(id) && asset.fallback) return this.loadAsset(asset.fallback)
+
+    const cached = this.cache.get(id)
+    if (cached) {
+      this.touch(id, cached)
+      return cached.data
+    }
 
-    // Check if already cached
-    const cached = this.getCachedAsset(asset)
-    if (cached) return cached
-
-    // Check if already loading
     const existingPromise = this.loadingPromises.get(id)
     if (existingPromise) return existingPromise
 
-    // Create loading promise
-    const loadingPromise = this.loadAssetByType(asset)
+    const loadingPromise = this.loadAssetData(asset)
+      .then(data => {
+        this.cacheAsset(asset, data)
+        return data
+      })
+      .catch(error => {
+        this.unavailable.add(id)
+        if (asset.fallback) {
+          console.warn(`Failed to load asset ${id}, trying fallback: ${asset.fallback}`)
+          return this.loadAsset(asset.fallback)
+        }
+        throw error
+      })
+      .finally(() => this.loadingPromises.delete(id))
+
     this.loadingPromises.set(id, loadingPromise)
+    return loadingPromise
+  }
 
-    try {
-      const result = await loadingPromise
-      this.cacheAsset(asset, result)
-      return result
-    } catch (error) {
-      console.error(`Failed to load asset ${id}:`, error)
-      
-      // Try fallback
-      if (asset.fallback) {
-        return this.loadAsset(asset.fallback)
-      }
-      
-      throw error
-    } finally {
-      this.loadingPromises.delete(id)
-    }
+  // Load multiple assets
+  async loadAssetBundle(assetIds: string[]): Promise<any[]> {
+    return Promise.all(assetIds.map(id => this.loadAsset(id)))
   }
 
-  // Load asset by type
-  private async loadAssetByType(asset: AssetConfig): Promise<any> {
-    switch (asset.type) {
-      case 'image':
-        return this.loadImage(asset)
-      case 'svg':
-        return this.loadSVG(asset)
-      case 'lottie':
-        return this.loadLottie(asset)
-      case 'gltf':
-        return this.loadGLTF(asset)
-      case 'audio':
-        return this.loadAudio(asset)
-      default:
-        throw new Error(`Unsupported asset type: ${asset.type}`)
+  // Load every asset of a bundle; one missing file does not stop the others
+  async preloadBundle(bundleId: string): Promise<void> {
+    const bundle = this.bundles.get(bundleId)
+    if (!bundle) {
+      throw new Error(`Bundle not found: ${bundleId}`)
     }
+
+    await Promise.all(bundle.assets.map(id =>
+      this.loadAsset(id).catch(error => console.warn(`Failed to preload asset ${id}:`, error))
+    ))
   }
 
-  // Load image asset
-  private loadImage(asset: AssetConfig): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image()
-      
-      // Enable compression and WebP
-      let src = asset.src
-      if (this.config.enableWebP && this.supportsWebP()) {
-        src = src.replace(/\.(png|jpg|jpeg)$/, '.webp')
-      }
-      
-      img.onload = () => {
-        resolve(img)
-      }
-      
-      img.onerror = () => {
-        // Fallback to original format
-        if (src !== asset.src) {
-          img.src = asset.src
-        } else {
-          reject(new Error(`Failed to load image: ${asset.src}`))
-        }
-      }
-      
-      // Set loading attributes
-      img.loading = 'lazy'
-      img.decoding = 'async'
-      
-      img.src = src
+  // Preload a scene's bundle, giving up after timeoutMs so a slow network never strands the child
+  waitForBundle(bundleId: string, timeoutMs: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, timeoutMs)
+      this.ready()
+        .then(() => this.bundles.has(bundleId) ? this.preloadBundle(bundleId) : undefined)
+        .catch(error => console.warn(`Failed to preload bundle ${bundleId}:`, error))
+        .finally(() => {
+          clearTimeout(timer)
+          resolve()
+        })
     })
   }
 
-  // Load SVG asset
-  private async loadSVG(asset: AssetConfig): Promise<string> {
-    const response = await fetch(asset.src)
-    if (!response.ok) {
-      throw new Error(`Failed to load SVG: ${asset.src}`)
+  /**
+   * Keeps assets in the cache while a component shows them; eviction skips
+   * retained assets. Call the returned function when the component unmounts.
+   */
+  retain(assetIds: string[]): () => void {
+    assetIds.forEach(id => this.retained.set(id, (this.retained.get(id) ?? 0) + 1))
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      assetIds.forEach(id => {
+        const count = (this.retained.get(id) ?? 1) - 1
+        if (count > 0) {
+          this.retained.set(id, count)
+        } else {
+          this.retained.delete(id)
+        }
+      })
     }
-    return response.text()
   }
 
-  // Load Lottie animation
-  private async loadLottie(asset: AssetConfig): Promise<any> {
-    // Dynamic import for Lottie
-    const { default: lottie } = await import('lottie-web')
-    const animationData = await fetch(asset.src).then(r => r.json())
-    return { lottie, animationData }
+  isCached(id: string): boolean {
+    return this.cache.has(id)
   }
 
-  // Load GLTF model (placeholder implementation - requires 3D library)
-  private async loadGLTF(asset: AssetConfig): Promise<any> {
-    // Note: 3D model loading requires a 3D library like Three.js or Phaser 3D support
-    // For now, return a placeholder object
-    console.warn(`GLTF loading not implemented for ${asset.id}. Consider adding Three.js dependency.`)
-    return { 
-      scene: null, 
-      meshes: [], 
-      materials: [], 
-      animations: [],
-      placeholder: true 
+  /**
+   * Reports whether an element is on screen, e.g. so an animation can pause while
+   * scrolled away. Without IntersectionObserver the element counts as visible.
+   */
+  observeVisibility(element: Element, onChange: (visible: boolean) => void): () => void {
+    if (typeof IntersectionObserver === 'undefined') {
+      onChange(true)
+      return () => {}
     }
-  }
 
-  // Load audio asset
-  private loadAudio(asset: AssetConfig): Promise<HTMLAudioElement> {
-    return new Promise((resolve, reject) => {
-      const audio = new Audio()
-      
-      audio.oncanplaythrough = () => {
-        resolve(audio)
-      }
-      
-      audio.onerror = () => {
-        reject(new Error(`Failed to load audio: ${asset.src}`))
-      }
-      
-      audio.preload = 'auto'
-      audio.src = asset.src
-    })
+    if (!this.intersectionObserver) {
+      this.intersectionObserver = new IntersectionObserver(entries => {
+        entries.forEach(entry => this.visibilityListeners.get(entry.target)?.(entry.isIntersecting))
+      })
+    }
+
+    this.visibilityListeners.set(element, onChange)
+    this.intersectionObserver.observe(element)
+    return () => {
+      this.visibilityListeners.delete(element)
+      this.intersectionObserver?.unobserve(element)
+    }
   }
 
-  // Get cached asset
-  private getCachedAsset(asset: AssetConfig): any {
-    if (!this.config.enableCache) return null
+  private async loadAssetData(asset: AssetMetadata): Promise<unknown> {
+    const response = await fetch(asset.src)
+    if (!response.ok) {
+      throw new Error(`Failed to load ${asset.type}: ${asset.src}`)
+    }
 
     switch (asset.type) {
-      case 'image':
-        return this.cache.images.get(asset.id)
       case 'svg':
-        return this.cache.svgs.get(asset.id)
+        return response.text()
       case 'lottie':
-        return this.cache.lotties.get(asset.id)
+        return response.json()
       case 'gltf':
-        return this.cache.gltfs.get(asset.id)
-      case 'audio':
-        return this.cache.audios.get(asset.id)
+        return response.arrayBuffer()
       default:
-        return null
+        throw new Error(`Unsupported asset type: ${asset.type}`)
     }
   }
 
-  // Cache asset
-  private cacheAsset(asset: AssetConfig, data: any): void {
-    if (!this.config.enableCache) return
-
-    // Check memory usage
-    const estimatedSize = this.estimateAssetSize(asset, data)
-    if (this.memoryUsage.total + estimatedSize > this.config.maxMemoryMB * 1024) {
-      this.evictLeastRecentlyUsed()
-    }
+  // Mark a cached asset as the most recently used
+  private touch(id: string, entry: CachedAsset): void {
+    this.cache.delete(id)
+    this.cache.set(id, entry)
+  }
 
-    switch (asset.type) {
-      case 'image':
-        this.cache.images.set(asset.id, data)
-        this.memoryUsage.images += estimatedSize
-        break
-      case 'svg':
-        this.cache.svgs.set(asset.id, data)
-        this.memoryUsage.svgs += estimatedSize
-        break
-      case 'lottie':
-        this.cache.lotties.set(asset.id, data)
-        this.memoryUsage.lotties += estimatedSize
-        break
-      case 'gltf':
-        this.cache.gltfs.set(asset.id, data)
-        this.memoryUsage.gltfs += estimatedSize
-        break
-      case 'audio':
-        this.cache.audios.set(asset.id, data)
-        this.memoryUsage.audios += estimatedSize
-        break
-    }
+  private cacheAsset(asset: AssetMetadata, data: unknown): void {
+    if (!this.config.enableCache) return
 
-    this.memoryUsage.total += estimatedSize
+    const size = this.estimateAssetSize(asset, data)
+    this.evictLeastRecentlyUsed(size)
+    this.cache.set(asset.id, { data, type: asset.type, size })
+    this.trackMemory(asset.type, size)
   }
 
   // Estimate asset size in KB
-  private estimateAssetSize(asset: AssetConfig, data: any): number {
-    if (asset.size) return asset.size
+  private estimateAssetSize(asset: AssetMetadata, data: unknown): number {
+    if (asset.fileSize) return asset.fileSize / 1024
 
     switch (asset.type) {
-      case 'image':
-        return 100 // Estimate 100KB per image
       case 'svg':
-        return (data as string).length / 1024 // KB based on string length
+        return (data as string).length / 1024
       case 'lottie':
-        return 50 // Estimate 50KB per Lottie animation
+        return JSON.stringify(data).length / 1024
       case 'gltf':
-        return 500 // Estimate 500KB per GLTF model
-      case 'audio':
-        return 200 // Estimate 200KB per audio file
+        return (data as ArrayBuffer).byteLength / 1024
       default:
-        return 50
+        return 0
     }
   }
 
-  // Evict least recently used assets
-  private evictLeastRecentlyUsed(): void {
-    // Simple eviction strategy - remove 25% of cached assets
-    const allAssets = [
-      ...this.cache.images.entries(),
-      ...this.cache.svgs.entries(),
-      ...this.cache.lotties.entries(),
-      ...this.cache.gltfs.entries(),
-      ...this.cache.audios.entries()
-    ]
-
-    const toRemove = Math.ceil(allAssets.length * 0.25)
-    for (let i = 0; i < toRemove; i++) {
-      const [id, type] = allAssets[i][0].split(':')
-      this.removeFromCache(id, type as any)
+  // Drop least recently used, unretained assets until the incoming one fits
+  private evictLeastRecentlyUsed(incomingSize: number): void {
+    const limit = this.config.maxMemoryMB * 1024
+    for (const [id, entry] of this.cache) {
+      if (this.memoryUsage.total + incomingSize <= limit) return
+      if (this.retained.has(id)) continue
+
+      this.cache.delete(id)
+      this.trackMemory(entry.type, -entry.size)
     }
   }
 
-  // Remove asset from cache
-  private removeFromCache(id: string, type: keyof AssetCache): void {
-    switch (type) {
-      case 'images':
-        this.cache.images.delete(id)
-        break
-      case 'svgs':
-        this.cache.svgs.delete(id)
-        break
-      case 'lotties':
-        this.cache.lotties.delete(id)
-        break
-      case 'gltfs':
-        this.cache.gltfs.delete(id)
-        break
-      case 'audios':
-        this.cache.audios.delete(id)
-        break
-    }
+  private trackMemory(type: AssetType, size: number): void {
+    if (type === 'emoji') return
+    this.memoryUsage[MEMORY_KEYS[type]] += size
+    this.memoryUsage.total += size
   }
 
-  // Preload asset bundle
-  async preloadBundle(bundleId: string): Promise<void> {
-    const bundle = this.bundles.get(bundleId)
-    if (!bundle) {
-      throw new Error(`Bundle not found: ${bundleId}`)
-    }
+  // Load the prefetch bundles when the browser has nothing better to do
+  private schedulePrefetch(): void {
+    if (!this.config.enablePreload || typeof window === 'undefined') return
 
-    const promises = bundle.assets.map(asset => this.loadAsset(asset.id))
-    await Promise.all(promises)
-  }
+    const prefetch = () => {
+      this.idleCallbackId = undefined
+      this.getLoadingStrategy().prefetch.forEach(asset => {
+        this.loadAsset(asset.id).catch(error => console.warn(`Failed to prefetch asset ${asset.id}:`, error))
+      })
+    }
 
-  // Load multiple assets
-  async loadAssetBundle(assetIds: string[]): Promise<any[]> {
-    const promises = assetIds.map(id => this.loadAsset(id))
-    return Promise.all(promises)
+    if ('requestIdleCallback' in window) {
+      this.idleCallbackId = window.requestIdleCallback(prefetch, { timeout: 5000 })
+    } else {
+      setTimeout(prefetch, 1000)
+    }
   }
 
-  // Get loading strategy
+  // Every registered asset under the highest priority of the bundles that list it
   getLoadingStrategy(): LoadingStrategy {
-    const immediate: AssetConfig[] = []
-    const lazy: AssetConfig[] = []
-    const prefetch: AssetConfig[] = []
-    const idle: AssetConfig[] = []
-
+    const priorities = new Map<string, AssetPriority>()
     for (const bundle of this.bundles.values()) {
-      for (const asset of bundle.assets) {
-        if (asset.preload || asset.priority === 'high') {
-          immediate.push(asset)
-        } else if (asset.priority === 'medium') {
-          prefetch.push(asset)
-        } else if (asset.priority === 'low') {
-          idle.push(asset)
-        } else {
-          lazy.push(asset)
+      bundle.assets.forEach(id => {
+        const current = priorities.get(id)
+        if (!current || PRIORITY_ORDER.indexOf(bundle.priority) < PRIORITY_ORDER.indexOf(current)) {
+          priorities.set(id, bundle.priority)
         }
-      }
+      })
     }
 
-    return { immediate, lazy, prefetch, idle }
-  }
-
-  // Get idle assets
-  private getIdleAssets(): AssetConfig[] {
-    const strategy = this.getLoadingStrategy()
-    return strategy.idle
-  }
-
-  // Check if WebP is supported
-  private supportsWebP(): boolean {
-    return this.config.enableWebP || false
+    const strategy: LoadingStrategy = { immediate: [], prefetch: [], idle: [], lazy: [] }
+    for (const asset of this.assets.values()) {
+      if (asset.type === 'emoji') continue
+      const priority = priorities.get(asset.id)
+      if (priority === 'high') {
+        strategy.immediate.push(asset)
+      } else if (priority === 'medium') {
+        strategy.prefetch.push(asset)
+      } else if (priority === 'low') {
+        strategy.idle.push(asset)
+      } else {
+        strategy.lazy.push(asset)
+      }
+    }
+    return strategy
   }
 
-  // Get memory usage
   getMemoryUsage(): MemoryUsage {
     return { ...this.memoryUsage }
   }
 
-  // Clear cache
-  clearCache(): void {
-    this.cache.images.clear()
-    this.cache.svgs.clear()
-    this.cache.lotties.clear()
-    this.cache.gltfs.clear()
-    this.cache.audios.clear()
-    
-    this.memoryUsage = {
-      total: 0,
-      images: 0,
-      svgs: 0,
-      lotties: 0,
-      gltfs: 0,
-      audios: 0
+  getLoadingStatus(): { loaded: number; loading: number; total: number } {
+    return {
+      loaded: this.cache.size,
+      loading: this.loadingPromises.size,
+      total: this.assets.size
     }
   }
 
-  // Get loading progress
-  getLoadingProgress(): { loaded: number; total: number; percentage: number } {
-    const totalAssets = Array.from(this.bundles.values())
-      .reduce((sum, bundle) => sum + bundle.assets.length, 0)
-    
-    const loadedAssets = [
-      ...this.cache.images.keys(),
-      ...this.cache.svgs.keys(),
-      ...this.cache.lotties.keys(),
-      ...this.cache.gltfs.keys(),
-      ...this.cache.audios.keys()
-    ].length
+  // Progress over one bundle's assets, or all bundled assets; failed files count as done
+  getLoadingProgress(bundleId?: string): { loaded: number; total: number; percentage: number } {
+    const bundles = bundleId ? [this.bundles.get(bundleId)].filter(Boolean) : Array.from(this.bundles.values())
+    const bundled = new Set(bundles.flatMap(bundle => bundle.assets).filter(id => this.assets.has(id)))
+    const loaded = Array.from(bundled).filter(id => this.cache.has(id) || this.unavailable.has(id)).length
 
     return {
-      loaded: loadedAssets,
-      total: totalAssets,
-      percentage: totalAssets > 0 ? Math.round((loadedAssets / totalAssets) * 100) : 0
+      loaded,
+      total: bundled.size,
+      percentage: bundled.size > 0 ? Math.round((loaded / bundled.size) * 100) : 100
     }
   }
 
-  // Destroy and cleanup
+  clearCache(): void {
+    this.cache.clear()
+    this.memoryUsage = emptyMemoryUsage()
+  }
+
   destroy(): void {
-    if (this.intersectionObserver) {
-      this.intersectionObserver.disconnect()
+    if (this.idleCallbackId !== undefined && typeof window !== 'undefined') {
+      window.cancelIdleCallback(this.idleCallbackId)
     }
-    
-    if (this.idleCallbackId && typeof window !== 'undefined') {
-      (window as any).cancelIdleCallback(this.idleCallbackId)
-    }
-    
+
+    this.intersectionObserver?.disconnect()
+    this.intersectionObserver = undefined
+    this.visibilityListeners.clear()
+
     this.clearCache()
     this.loadingPromises.clear()
+    this.retained.clear()
+    this.unavailable.clear()
     this.bundles.clear()
+    this.assets.clear()
+    this.categories.clear()
+    this.manifestPromise = null
   }
 }
 
@@ -570,16 +438,16 @@ export const preloadBundle = (bundleId: string): Promise<void> => {
   return assetManager.preloadBundle(bundleId)
 }
 
-export const getAsset = (id: string): AssetConfig | undefined => {
+export const getAsset = (id: string): AssetMetadata | undefined => {
   return assetManager.getAsset(id)
 }
 
-export const getLoadingProgress = () => {
-  return assetManager.getLoadingProgress()
+export const getLoadingProgress = (bundleId?: string) => {
+  return assetManager.getLoadingProgress(bundleId)
 }
 
 export const getMemoryUsage = () => {
   return assetManager.getMemoryUsage()
 }
 
-export default assetManager
\ No newline at end of file
+export default assetManager
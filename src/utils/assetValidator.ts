@@ -4,7 +4,8 @@ import {
   ASSET_VALIDATION_RULES, 
   AssetMetadata, 
   AssetType,
-  AssetCategory 
+  AssetCategory,
+  AssetValidationStatus
 } from '@/config/assetConfig'
 
 export interface ValidationResult {
@@ -22,6 +23,18 @@ export interface AssetValidationReport {
   checkedAt: string
 }
 
+// What the file on disk actually measures
+export interface AssetFileInfo {
+  byteSize: number
+  dimensions?: { width: number; height: number }
+}
+
+export interface AssetFileReport extends AssetValidationReport {
+  src: string
+  status: Exclude<AssetValidationStatus, 'pending'>
+  file?: AssetFileInfo
+}
+
 /**
  * Validates asset ID according to category-specific naming rules
  */
@@ -337,6 +350,85 @@ export function validateAssetManifest(assets: AssetMetadata[]): {
   return { reports, summary }
 }
 
+/**
+ * Validates the contents of an asset's file. The size, dimensions and extension checks of
+ * validateAssetFile run against the measured file rather than the manifest's figures.
+ */
+export function validateAssetContent(metadata: AssetMetadata, content: string, byteSize: number): AssetFileReport {
+  const errors: string[] = []
+  const warnings: string[] = []
+  const suggestions: string[] = []
+  const file: AssetFileInfo = { byteSize }
+
+  if (metadata.type === 'svg') {
+    const svg = inspectSvg(content)
+    errors.push(...svg.errors)
+    file.dimensions = svg.dimensions
+  } else if (metadata.type === 'lottie') {
+    errors.push(...inspectLottie(content))
+  }
+
+  const measured = validateAssetFile({ ...metadata, fileSize: byteSize, dimensions: file.dimensions })
+  errors.push(...measured.errors)
+  warnings.push(...measured.warnings)
+  suggestions.push(...measured.suggestions)
+
+  // The manifest's figures feed the loading budget, so they should match the file
+  if (metadata.fileSize !== undefined && metadata.fileSize !== byteSize) {
+    warnings.push(`Manifest fileSize (${metadata.fileSize}) does not match the file (${byteSize})`)
+    suggestions.push(`Set fileSize to ${byteSize}`)
+  }
+  if (metadata.dimensions && file.dimensions &&
+      (metadata.dimensions.width !== file.dimensions.width || metadata.dimensions.height !== file.dimensions.height)) {
+    warnings.push(`Manifest dimensions (${metadata.dimensions.width}x${metadata.dimensions.height}) do not match the file (${file.dimensions.width}x${file.dimensions.height})`)
+  }
+
+  return {
+    assetId: metadata.id,
+    category: metadata.category,
+    src: metadata.src,
+    status: errors.length === 0 ? 'valid' : 'invalid',
+    file,
+    validation: {
+      isValid: errors.length === 0,
+      errors,
+      warnings,
+      suggestions
+    },
+    metadata,
+    checkedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Report for an asset whose file is not where the manifest says
+ */
+export function missingAssetFile(metadata: AssetMetadata): AssetFileReport {
+  return {
+    assetId: metadata.id,
+    category: metadata.category,
+    src: metadata.src,
+    status: 'missing',
+    validation: {
+      isValid: false,
+      errors: [`File not found: ${metadata.src}`],
+      warnings: [],
+      suggestions: ['Add the file or remove the asset from the manifest']
+    },
+    metadata,
+    checkedAt: new Date().toISOString()
+  }
+}
+
+/**
+ * Files under the assets directory that no manifest entry refers to. Both lists hold
+ * public paths such as /assets/toys/ball.svg.
+ */
+export function findOrphanedFiles(assets: AssetMetadata[], files: string[]): string[] {
+  const referenced = new Set(assets.filter(asset => asset.type !== 'emoji').map(asset => asset.src))
+  return files.filter(file => !referenced.has(file)).sort()
+}
+
 /**
  * Utility functions
  */
@@ -361,6 +453,63 @@ function getExpectedExtensions(type: AssetType): string[] {
   }
 }
 
+// Reads the root <svg> tag; the size comes from width/height, or from the viewBox without them
+function inspectSvg(content: string): { errors: string[]; dimensions?: { width: number; height: number } } {
+  const rootTag = content.match(/<svg\b([^>]*)>/)
+  if (!rootTag) {
+    return { errors: ['File does not contain an <svg> element'] }
+  }
+
+  const attributes: Record<string, string> = {}
+  for (const [, name, doubleQuoted, singleQuoted] of rootTag[1].matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = doubleQuoted ?? singleQuoted
+  }
+
+  const errors = ASSET_VALIDATION_RULES.svg.requiredAttributes
+    .filter(attribute => attributes[attribute] === undefined)
+    .map(attribute => `SVG root is missing the ${attribute} attribute`)
+
+  const viewBox = attributes.viewBox?.trim().split(/[\s,]+/).map(Number)
+  if (viewBox && (viewBox.length !== 4 || viewBox.some(isNaN))) {
+    errors.push(`Invalid viewBox "${attributes.viewBox}"`)
+  }
+
+  const width = parseFloat(attributes.width ?? '') || viewBox?.[2]
+  const height = parseFloat(attributes.height ?? '') || viewBox?.[3]
+  if (!width || !height) {
+    errors.push('Cannot determine SVG dimensions from width/height or viewBox')
+    return { errors }
+  }
+
+  return { errors, dimensions: { width, height } }
+}
+
+function inspectLottie(content: string): string[] {
+  let animation: unknown
+  try {
+    animation = JSON.parse(content)
+  } catch {
+    return ['File is not valid JSON']
+  }
+  if (!animation || typeof animation !== 'object' || Array.isArray(animation)) {
+    return ['Lottie file must contain a JSON object']
+  }
+
+  const errors = ASSET_VALIDATION_RULES.lottie.requiredProperties
+    .filter(property => !(property in animation))
+    .map(property => `Lottie file is missing the "${property}" property`)
+
+  const { ip, op, layers } = animation as { ip?: unknown; op?: unknown; layers?: unknown }
+  if ('layers' in animation && !Array.isArray(layers)) {
+    errors.push('Lottie "layers" must be an array')
+  }
+  if (typeof ip === 'number' && typeof op === 'number' && op <= ip) {
+    errors.push(`Lottie out point (${op}) must come after its in point (${ip})`)
+  }
+
+  return errors
+}
+
 function isValidISODate(dateString: string): boolean {
   try {
     const date = new Date(dateString)
@@ -417,5 +566,8 @@ export default {
   validateAccessibility,
   validateAsset,
   validateAssetManifest,
+  validateAssetContent,
+  missingAssetFile,
+  findOrphanedFiles,
   suggestFixes
 }
\ No newline at end of file
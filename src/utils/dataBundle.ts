@@ -0,0 +1,292 @@
+// Family backup: everything the app keeps on this device, as one versioned JSON file.
+// The store travels in zustand's own persisted form, so restoring an export made by an
+// older app version runs the store's usual migrations.
+import { useAppStore, AppSettings, ChildProfile, ProfileRecord } from '../store/appStore'
+import { eventLog, BehaviorEvent, DailyAggregate } from './eventLog'
+import { accessibilityManager, AccessibilityPreferences } from './accessibilityManager'
+import { getDateKey } from './playTimeLedger'
+import { createInitialGarden } from '../game/gardenSimulation'
+
+export const DATA_BUNDLE_FORMAT = 'little-world-backup'
+export const DATA_BUNDLE_SCHEMA_VERSION = 1
+
+const TIMER_POSITION_KEY = 'timerPosition' // where TimeManager keeps its dragged position
+
+export interface PersistedStore {
+  state: {
+    childProfile: ChildProfile
+    settings: AppSettings
+    profiles?: ProfileRecord[] // missing before store v4, when there was a single child
+    activeProfileId?: string | null
+    [key: string]: unknown
+  }
+  version: number
+}
+
+export interface DataBundle {
+  format: typeof DATA_BUNDLE_FORMAT
+  schemaVersion: number
+  exportedAt: number
+  store: PersistedStore
+  behaviorLog: {
+    events: BehaviorEvent[]
+    aggregates: DailyAggregate[]
+  }
+  preferences: {
+    accessibility: Partial<AccessibilityPreferences> | null
+    timerPosition: { x: number; y: number } | null
+  }
+}
+
+export interface BundleParseResult {
+  bundle: DataBundle | null
+  errors: string[]
+  warnings: string[]
+  migratedFrom?: number // schema version of the file, when it was older than this app's
+}
+
+export interface BundleConflict {
+  kind: 'profile_replaced' | 'profile_removed' | 'settings_changed'
+  message: string
+}
+
+type BundleData = Record<string, unknown>
+
+const isObject = (value: unknown): value is BundleData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Each entry upgrades a bundle from the keyed schema version to the next one
+const BUNDLE_MIGRATIONS: Record<number, (data: BundleData) => BundleData> = {
+  // v0 is a bare copy of the store's localStorage entry, as parents saved it before backups existed
+  0: data => ({
+    format: DATA_BUNDLE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: 0,
+    store: data,
+    behaviorLog: { events: [], aggregates: [] },
+    preferences: { accessibility: null, timerPosition: null }
+  })
+}
+
+const getSchemaVersion = (data: BundleData) => {
+  if (data.format === undefined && isObject(data.state) && typeof data.version === 'number') return 0
+  if (data.format !== DATA_BUNDLE_FORMAT) return null
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : null
+}
+
+// The children a bundle holds, in any store version
+const getBundleChildren = (store: PersistedStore): Array<{ id: string | null; profile: ChildProfile }> => {
+  if (Array.isArray(store.state.profiles)) return store.state.profiles
+  return store.state.childProfile?.name ? [{ id: null, profile: store.state.childProfile }] : []
+}
+
+// A child's garden and inventory, at the top of the state or in a profile record. Missing ones
+// start fresh like the store's migrations do; malformed ones would crash the garden scene.
+const checkChildData = (data: BundleData, storeVersion: number, name: string, errors: string[], warnings: string[]) => {
+  const { garden, inventory } = data
+  // The active child is checked both at the top of the state and in its record; report it once
+  const report = (list: string[], message: string) => {
+    if (!list.includes(message)) list.push(message)
+  }
+  if (garden === undefined) {
+    data.garden = createInitialGarden()
+    report(warnings, `备份里没有${name || '孩子'}的花园，导入后会从新花园开始`)
+  } else if (!isObject(garden) || !Array.isArray(garden.plots) || (storeVersion >= 2 && !isObject(garden.seedInventory))) {
+    // v1 gardens had no seed tray yet; the store migration adds it
+    report(errors, `备份里${name || '孩子'}的花园格式不正确`)
+  }
+  if (inventory === undefined) {
+    data.inventory = []
+  } else if (!Array.isArray(inventory)) {
+    report(errors, '备份里的孩子档案格式不正确')
+  }
+}
+
+const validateBundle = (data: BundleData, storeVersion: number, errors: string[], warnings: string[]) => {
+  const { store, behaviorLog, preferences } = data
+  if (!isObject(store) || !isObject(store.state) || typeof store.version !== 'number') {
+    errors.push('备份里没有孩子的档案数据')
+    return
+  }
+  if (store.version > storeVersion) {
+    errors.push('这个备份来自更新版本的小世界，请先更新应用再导入')
+  }
+  if (!isObject(store.state.settings) || typeof store.state.settings.dailyTimeLimit !== 'number') {
+    errors.push('备份里的设置不完整')
+  }
+  const profiles = store.state.profiles
+  const hasValidProfiles = Array.isArray(profiles) && profiles.every(record =>
+    isObject(record) && typeof record.id === 'string' && isObject(record.profile) && typeof record.profile.name === 'string'
+  )
+  if (profiles !== undefined && !hasValidProfiles) {
+    errors.push('备份里的孩子档案格式不正确')
+  }
+  // Before store v4 the single child sat directly in the state; later the active child's copy still does
+  const { childProfile } = store.state
+  if (!isObject(childProfile) || typeof childProfile.name !== 'string') {
+    if (profiles === undefined) errors.push('备份里的孩子档案格式不正确')
+  } else {
+    checkChildData(store.state, store.version as number, childProfile.name, errors, warnings)
+  }
+  if (hasValidProfiles) {
+    (profiles as ProfileRecord[]).forEach(record =>
+      checkChildData(record as unknown as BundleData, store.version as number, record.profile.name, errors, warnings))
+  }
+
+  if (!isObject(behaviorLog) || !Array.isArray(behaviorLog.events) || !Array.isArray(behaviorLog.aggregates)) {
+    errors.push('备份里的行为记录格式不正确')
+  } else if (Array.isArray(profiles)) {
+    // Records of children who are not in the backup cannot be shown anywhere; drop them
+    const profileIds = new Set(profiles.map(record => (record as ProfileRecord).id))
+    const events = behaviorLog.events.filter(event => isObject(event) && profileIds.has(event.profileId as string))
+    const aggregates = behaviorLog.aggregates.filter(aggregate => isObject(aggregate) && profileIds.has(aggregate.profileId as string))
+    const dropped = behaviorLog.events.length - events.length + behaviorLog.aggregates.length - aggregates.length
+    if (dropped > 0) warnings.push(`${dropped}条行为记录不属于备份里的任何孩子，将被忽略`)
+    data.behaviorLog = { events, aggregates }
+  }
+
+  if (!isObject(preferences)) {
+    warnings.push('备份里没有辅助功能偏好，将保留这台设备上的设置')
+    data.preferences = { accessibility: null, timerPosition: null }
+  }
+}
+
+/**
+ * Reads a backup file, upgrading it from older schema versions. The bundle is
+ * only returned when there are no errors; warnings describe what will be skipped.
+ */
+export const parseDataBundle = (
+  text: string,
+  storeVersion: number = useAppStore.persist.getOptions().version ?? 0
+): BundleParseResult => {
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { bundle: null, errors: ['文件不是有效的备份文件'], warnings }
+  }
+  if (!isObject(data)) return { bundle: null, errors: ['文件不是有效的备份文件'], warnings }
+
+  const fileVersion = getSchemaVersion(data)
+  if (fileVersion === null) return { bundle: null, errors: ['这不是小世界的备份文件'], warnings }
+  if (fileVersion > DATA_BUNDLE_SCHEMA_VERSION) {
+    return { bundle: null, errors: ['这个备份来自更新版本的小世界，请先更新应用再导入'], warnings }
+  }
+
+  let migrated = data
+  for (let version = fileVersion; version < DATA_BUNDLE_SCHEMA_VERSION; version++) {
+    migrated = BUNDLE_MIGRATIONS[version](migrated)
+  }
+  if (fileVersion === 0) warnings.push('这是旧版的数据文件，不包含行为记录和辅助功能偏好')
+
+  validateBundle(migrated, storeVersion, errors, warnings)
+  return {
+    bundle: errors.length === 0 ? (migrated as unknown as DataBundle) : null,
+    errors,
+    warnings,
+    ...(fileVersion < DATA_BUNDLE_SCHEMA_VERSION && { migratedFrom: fileVersion })
+  }
+}
+
+// What importing the bundle would overwrite or remove on this device
+export const findBundleConflicts = (
+  bundle: DataBundle,
+  current: { profiles: ProfileRecord[]; settings: AppSettings }
+): BundleConflict[] => {
+  const conflicts: BundleConflict[] = []
+  const incoming = getBundleChildren(bundle.store)
+  // Backups from before store v4 hold one child without an id; it can only be recognised by name
+  const isLegacy = !Array.isArray(bundle.store.state.profiles)
+
+  current.profiles.forEach(({ id, profile }) => {
+    const match = incoming.find(record => isLegacy ? record.profile.name === profile.name : record.id === id)
+    if (!match) {
+      conflicts.push({
+        kind: 'profile_removed',
+        message: isLegacy
+          ? `这是只有一个孩子的旧版备份，${profile.name}的档案不在里面，导入后会被删除`
+          : `${profile.name}的档案不在备份里，导入后会被删除`
+      })
+    } else if (profile.lastSessionEnd > match.profile.lastSessionEnd) {
+      conflicts.push({ kind: 'profile_replaced', message: `${profile.name}在这台设备上的记录比备份更新，导入后会回到备份时的样子` })
+    } else {
+      conflicts.push({ kind: 'profile_replaced', message: `${profile.name}的档案会被备份中的版本替换` })
+    }
+  })
+
+  const settings = bundle.store.state.settings
+  if (settings.parentPin !== current.settings.parentPin) {
+    conflicts.push({
+      kind: 'settings_changed',
+      message: settings.parentPin ? '家长密码会变成备份中的密码' : '备份里没有家长密码，导入后会改用按住确认'
+    })
+  }
+  if (settings.dailyTimeLimit !== current.settings.dailyTimeLimit) {
+    conflicts.push({ kind: 'settings_changed', message: `每日游戏时间会变成${settings.dailyTimeLimit}分钟` })
+  }
+  return conflicts
+}
+
+const readTimerPosition = (): DataBundle['preferences']['timerPosition'] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TIMER_POSITION_KEY) ?? 'null')
+    return isObject(saved) && typeof saved.x === 'number' && typeof saved.y === 'number'
+      ? { x: saved.x, y: saved.y }
+      : null
+  } catch {
+    return null
+  }
+}
+
+// Everything on this device, or null before the store has saved anything
+export const createDataBundle = async (now: number = Date.now()): Promise<DataBundle | null> => {
+  const { name } = useAppStore.persist.getOptions()
+  const saved = name ? localStorage.getItem(name) : null
+  if (!saved) return null
+
+  const store = JSON.parse(saved) as PersistedStore
+  return {
+    format: DATA_BUNDLE_FORMAT,
+    schemaVersion: DATA_BUNDLE_SCHEMA_VERSION,
+    exportedAt: now,
+    store,
+    behaviorLog: await eventLog.exportAll(),
+    preferences: {
+      accessibility: accessibilityManager.getPreferences(),
+      timerPosition: readTimerPosition()
+    }
+  }
+}
+
+export const getBundleFileName = (bundle: DataBundle) => `little-world-backup-${getDateKey(bundle.exportedAt)}.json`
+
+// Replaces this device's data with the bundle's. The behaviour log goes first, so a store
+// migration that moves old behaviours into the log writes on top of the restored one.
+// If the store cannot be loaded, both the log and the store are put back as they were.
+export const applyDataBundle = async (bundle: DataBundle) => {
+  const { name } = useAppStore.persist.getOptions()
+  const previousStore = name ? localStorage.getItem(name) : null
+  const previousLog = await eventLog.exportAll()
+
+  await eventLog.replaceAll(bundle.behaviorLog.events, bundle.behaviorLog.aggregates)
+  try {
+    if (name) localStorage.setItem(name, JSON.stringify(bundle.store))
+    await useAppStore.persist.rehydrate()
+    // zustand reports a failed rehydrate or migration here instead of rejecting
+    if (!useAppStore.persist.hasHydrated()) throw new Error('Failed to load the restored store')
+  } catch (error) {
+    if (name && previousStore !== null) localStorage.setItem(name, previousStore)
+    if (name && previousStore === null) localStorage.removeItem(name)
+    await eventLog.replaceAll(previousLog.events, previousLog.aggregates)
+    await useAppStore.persist.rehydrate()
+    throw error
+  }
+
+  if (bundle.preferences.accessibility) accessibilityManager.updatePreferences(bundle.preferences.accessibility)
+  if (bundle.preferences.timerPosition) {
+    localStorage.setItem(TIMER_POSITION_KEY, JSON.stringify(bundle.preferences.timerPosition))
+  }
+}
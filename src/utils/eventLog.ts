@@ -0,0 +1,311 @@
+// Append-only log of everything the child does, kept in IndexedDB so history outlives the
+// persisted store. Old raw events are compacted into per-day aggregates.
+import type { ChildBehavior, ItemOrigin } from '../store/appStore'
+import { getDateKey } from './playTimeLedger'
+
+export type BehaviorEventType = ChildBehavior['action']
+export type BehaviorScene = ChildBehavior['scene']
+
+export interface BehaviorEvent {
+  id?: number // assigned by IndexedDB
+  profileId: string
+  sessionId: string // '' for events recorded outside a play session
+  type: BehaviorEventType
+  scene: BehaviorScene
+  subjectId?: string // what the child acted with, e.g. a toy or a planted seed
+  targetId?: string // who or what it was aimed at, e.g. the friend who received a gift
+  duration?: number // milliseconds, for events that span time
+  origin?: ItemOrigin
+  timestamp: number
+}
+
+export interface DailyAggregate {
+  key: string // `${profileId}:${date}`
+  profileId: string
+  date: string // local 'YYYY-MM-DD', as in the play-time ledger
+  counts: Partial<Record<BehaviorEventType, number>>
+  sceneCounts: Partial<Record<BehaviorScene, number>>
+  totalDuration: number
+  sessionIds: string[]
+  milestones?: string[] // milestone keys seen that day, so firsts survive compaction
+}
+
+export interface BehaviorSummary {
+  counts: Partial<Record<BehaviorEventType, number>>
+  sceneCounts: Partial<Record<BehaviorScene, number>>
+  totalDuration: number
+  sessionCount: number
+}
+
+export interface EventQuery {
+  profileId: string
+  since?: number
+  until?: number
+  type?: BehaviorEventType
+  limit?: number // keeps the latest events
+}
+
+const DB_NAME = 'little-world-events'
+const DB_VERSION = 1
+const EVENTS_STORE = 'events'
+const AGGREGATES_STORE = 'dailyAggregates'
+const RAW_RETENTION_DAYS = 14 // raw events older than this are folded into daily aggregates
+
+// Identifies a kind of moment worth celebrating the first time it happens, e.g. sharing with
+// a particular friend or making a bouquet; null for everyday events
+export const getMilestoneKey = (event: BehaviorEvent): string | null => {
+  switch (event.type) {
+    case 'share':
+    case 'reconcile':
+      return event.targetId ? `share:${event.targetId}` : null
+    case 'help':
+      return event.targetId ? `help:${event.targetId}` : null
+    case 'create':
+      return event.subjectId ? `create:${event.subjectId}` : null
+    default:
+      return null
+  }
+}
+
+const addCount = <K extends string>(counts: Partial<Record<K, number>>, key: K, amount: number = 1) => {
+  counts[key] = (counts[key] ?? 0) + amount
+}
+
+// Folds events into (copies of) the given aggregates, one per profile and local day
+export const aggregateEvents = (events: BehaviorEvent[], aggregates: DailyAggregate[] = []): DailyAggregate[] => {
+  const byKey = new Map(aggregates.map(aggregate => [aggregate.key, {
+    ...aggregate,
+    counts: { ...aggregate.counts },
+    sceneCounts: { ...aggregate.sceneCounts },
+    sessionIds: [...aggregate.sessionIds],
+    milestones: [...(aggregate.milestones ?? [])]
+  }]))
+
+  events.forEach(event => {
+    const date = getDateKey(event.timestamp)
+    const key = `${event.profileId}:${date}`
+    const aggregate = byKey.get(key) ?? {
+      key,
+      profileId: event.profileId,
+      date,
+      counts: {},
+      sceneCounts: {},
+      totalDuration: 0,
+      sessionIds: [],
+      milestones: []
+    }
+
+    addCount(aggregate.counts, event.type)
+    addCount(aggregate.sceneCounts, event.scene)
+    aggregate.totalDuration += event.duration ?? 0
+    if (event.sessionId && !aggregate.sessionIds.includes(event.sessionId)) aggregate.sessionIds.push(event.sessionId)
+    const milestone = getMilestoneKey(event)
+    if (milestone && !aggregate.milestones.includes(milestone)) aggregate.milestones.push(milestone)
+    byKey.set(key, aggregate)
+  })
+
+  return [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// One summary over compacted days and the raw events that follow them
+export const summarizeBehavior = (aggregates: DailyAggregate[], events: BehaviorEvent[]): BehaviorSummary => {
+  const summary: BehaviorSummary = { counts: {}, sceneCounts: {}, totalDuration: 0, sessionCount: 0 }
+  const sessionIds = new Set<string>()
+
+  aggregateEvents(events, aggregates).forEach(aggregate => {
+    Object.entries(aggregate.counts).forEach(([type, count]) => addCount(summary.counts, type as BehaviorEventType, count))
+    Object.entries(aggregate.sceneCounts).forEach(([scene, count]) => addCount(summary.sceneCounts, scene as BehaviorScene, count))
+    summary.totalDuration += aggregate.totalDuration
+    aggregate.sessionIds.forEach(id => sessionIds.add(id))
+  })
+
+  summary.sessionCount = sessionIds.size
+  return summary
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve()
+  transaction.onerror = () => reject(transaction.error)
+  transaction.onabort = () => reject(transaction.error)
+})
+
+// Local midnight `daysAgo` days before the day containing `now`
+const getDayStart = (now: number, daysAgo: number) => {
+  const date = new Date(now)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysAgo).getTime()
+}
+
+class EventLog {
+  private dbPromise: Promise<IDBDatabase | null> | null = null
+  private listeners: Set<() => void> = new Set()
+
+  async append(event: BehaviorEvent) {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction(EVENTS_STORE, 'readwrite')
+    transaction.objectStore(EVENTS_STORE).add(event)
+    await transactionDone(transaction)
+    this.notify()
+  }
+
+  // Raw events, oldest first
+  async query({ profileId, since = 0, until = Number.MAX_SAFE_INTEGER, type, limit }: EventQuery): Promise<BehaviorEvent[]> {
+    const db = await this.open()
+    if (!db) return []
+
+    const index = db.transaction(EVENTS_STORE).objectStore(EVENTS_STORE).index('byProfileTime')
+    const range = IDBKeyRange.bound([profileId, since], [profileId, until])
+
+    // Walk newest first so a limit keeps the latest events
+    const events: BehaviorEvent[] = []
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev')
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || (limit !== undefined && events.length >= limit)) {
+          resolve()
+          return
+        }
+        const event = cursor.value as BehaviorEvent
+        if (!type || event.type === type) events.push(event)
+        cursor.continue()
+      }
+    })
+    return events.reverse()
+  }
+
+  async getDailyAggregates(profileId: string, sinceDate: string = ''): Promise<DailyAggregate[]> {
+    const db = await this.open()
+    if (!db) return []
+
+    const index = db.transaction(AGGREGATES_STORE).objectStore(AGGREGATES_STORE).index('byProfileDate')
+    const range = IDBKeyRange.bound([profileId, sinceDate], [profileId, '\uffff'])
+    return requestToPromise(index.getAll(range) as IDBRequest<DailyAggregate[]>)
+  }
+
+  // Everything since `since`, whether it is still raw or already compacted
+  async summarize(profileId: string, since: number): Promise<BehaviorSummary> {
+    const [aggregates, events] = await Promise.all([
+      this.getDailyAggregates(profileId, getDateKey(since)),
+      this.query({ profileId, since })
+    ])
+    return summarizeBehavior(aggregates, events)
+  }
+
+  // Folds raw events from before the retention window into daily aggregates
+  async compact(profileId: string, now: number = Date.now()) {
+    const db = await this.open()
+    if (!db) return
+
+    const cutoff = getDayStart(now, RAW_RETENTION_DAYS)
+    const events = await this.query({ profileId, until: cutoff - 1 })
+    if (events.length === 0) return
+
+    const existing = await this.getDailyAggregates(profileId, getDateKey(events[0].timestamp))
+    const aggregates = aggregateEvents(events, existing)
+
+    const transaction = db.transaction([EVENTS_STORE, AGGREGATES_STORE], 'readwrite')
+    aggregates.forEach(aggregate => transaction.objectStore(AGGREGATES_STORE).put(aggregate))
+    events.forEach(event => {
+      if (event.id !== undefined) transaction.objectStore(EVENTS_STORE).delete(event.id)
+    })
+    await transactionDone(transaction)
+    this.notify()
+  }
+
+  // Forgets a removed child entirely
+  async clearProfile(profileId: string) {
+    const db = await this.open()
+    if (!db) return
+
+    const [events, aggregates] = await Promise.all([
+      this.query({ profileId }),
+      this.getDailyAggregates(profileId)
+    ])
+    const transaction = db.transaction([EVENTS_STORE, AGGREGATES_STORE], 'readwrite')
+    events.forEach(event => {
+      if (event.id !== undefined) transaction.objectStore(EVENTS_STORE).delete(event.id)
+    })
+    aggregates.forEach(aggregate => transaction.objectStore(AGGREGATES_STORE).delete(aggregate.key))
+    await transactionDone(transaction)
+    this.notify()
+  }
+
+  // Every child's raw events and aggregates, for a family backup
+  async exportAll(): Promise<{ events: BehaviorEvent[]; aggregates: DailyAggregate[] }> {
+    const db = await this.open()
+    if (!db) return { events: [], aggregates: [] }
+
+    const transaction = db.transaction([EVENTS_STORE, AGGREGATES_STORE])
+    const [events, aggregates] = await Promise.all([
+      requestToPromise(transaction.objectStore(EVENTS_STORE).getAll() as IDBRequest<BehaviorEvent[]>),
+      requestToPromise(transaction.objectStore(AGGREGATES_STORE).getAll() as IDBRequest<DailyAggregate[]>)
+    ])
+    return { events, aggregates }
+  }
+
+  // Swaps the whole log for a restored backup; events get fresh ids
+  async replaceAll(events: BehaviorEvent[], aggregates: DailyAggregate[]) {
+    const db = await this.open()
+    if (!db) return
+
+    const transaction = db.transaction([EVENTS_STORE, AGGREGATES_STORE], 'readwrite')
+    const eventStore = transaction.objectStore(EVENTS_STORE)
+    const aggregateStore = transaction.objectStore(AGGREGATES_STORE)
+    eventStore.clear()
+    aggregateStore.clear()
+    events.forEach(event => {
+      const fresh = { ...event }
+      delete fresh.id
+      eventStore.add(fresh)
+    })
+    aggregates.forEach(aggregate => aggregateStore.put(aggregate))
+    await transactionDone(transaction)
+    this.notify()
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private open() {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          console.warn('IndexedDB is not available; behaviour history will not be kept')
+          resolve(null)
+          return
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id', autoIncrement: true })
+          events.createIndex('byProfileTime', ['profileId', 'timestamp'])
+          const aggregates = db.createObjectStore(AGGREGATES_STORE, { keyPath: 'key' })
+          aggregates.createIndex('byProfileDate', ['profileId', 'date'])
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('Failed to open the behaviour log:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.dbPromise
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const eventLog = new EventLog()
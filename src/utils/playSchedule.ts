@@ -0,0 +1,64 @@
+// Weekly play schedule: one allowed window per weekday, in local time
+
+export interface PlayWindow {
+  enabled: boolean // false: no play at all on this weekday
+  start: string // 'HH:MM'
+  end: string // 'HH:MM', exclusive
+}
+
+export type PlaySchedule = PlayWindow[] // indexed by Date.getDay(), 0 = Sunday
+
+export const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六']
+
+export const createDefaultSchedule = (): PlaySchedule =>
+  Array.from({ length: 7 }, () => ({ enabled: true, start: '08:00', end: '19:30' }))
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+const atMinutes = (day: Date, minutes: number) =>
+  new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes).getTime()
+
+// The window for the weekday containing `now`, as timestamps; null on days without play
+const getWindowOn = (schedule: PlaySchedule, now: number) => {
+  const day = new Date(now)
+  const window = schedule[day.getDay()]
+  if (!window?.enabled) return null
+
+  return { start: atMinutes(day, toMinutes(window.start)), end: atMinutes(day, toMinutes(window.end)) }
+}
+
+export const isWithinSchedule = (schedule: PlaySchedule | undefined, now: number) => {
+  if (!schedule) return true
+  const window = getWindowOn(schedule, now)
+  return window !== null && now >= window.start && now < window.end
+}
+
+// Milliseconds until the current window closes; Infinity without a schedule, 0 outside a window
+export const getTimeUntilClose = (schedule: PlaySchedule | undefined, now: number) => {
+  if (!schedule) return Infinity
+  const window = getWindowOn(schedule, now)
+  if (!window || now < window.start || now >= window.end) return 0
+  return window.end - now
+}
+
+// Start of the next window after `now`, looking up to a week ahead; null if every day is off
+export const getNextOpening = (schedule: PlaySchedule, now: number) => {
+  const today = new Date(now)
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset).getTime()
+    const window = getWindowOn(schedule, day)
+    if (window && window.start > now) return window.start
+  }
+  return null
+}
+
+// First opening on a later day than `now`, for when today's play is over; midnight without a schedule
+export const getNextPlayDay = (schedule: PlaySchedule | undefined, now: number) => {
+  const today = new Date(now)
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).getTime()
+  if (!schedule) return tomorrow
+  return getNextOpening(schedule, tomorrow - 1) ?? tomorrow
+}
@@ -0,0 +1,68 @@
+// Per-day play time ledger, keyed by local calendar date ('YYYY-MM-DD')
+
+export type PlayTimeLedger = Record<string, number> // date key -> played milliseconds
+
+const HISTORY_DAYS = 90
+
+export const getDateKey = (timestamp: number) => {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+// Local midnight at the end of the day containing `timestamp`
+const getNextMidnight = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime()
+}
+
+/**
+ * Adds the time played between `from` and `to`, splitting it at local
+ * midnight so a late-evening session counts towards both days.
+ */
+export const addPlayTime = (ledger: PlayTimeLedger, from: number, to: number): PlayTimeLedger => {
+  if (to <= from) return ledger
+
+  const next = { ...ledger }
+  let cursor = from
+  while (cursor < to) {
+    const end = Math.min(to, getNextMidnight(cursor))
+    const key = getDateKey(cursor)
+    next[key] = (next[key] ?? 0) + (end - cursor)
+    cursor = end
+  }
+  return pruneLedger(next, to)
+}
+
+export const getPlayedOn = (ledger: PlayTimeLedger, timestamp: number) => ledger[getDateKey(timestamp)] ?? 0
+
+// Extra time granted for the day containing `timestamp` only, e.g. a parent's extension
+export const addGrantedTime = (ledger: PlayTimeLedger, timestamp: number, amount: number): PlayTimeLedger => {
+  const key = getDateKey(timestamp)
+  return pruneLedger({ ...ledger, [key]: (ledger[key] ?? 0) + amount }, timestamp)
+}
+
+// The day's budget in ms: the daily limit plus whatever was granted for that day
+export const getDailyBudget = (limitMinutes: number, granted: PlayTimeLedger | undefined, timestamp: number) => {
+  return limitMinutes * 60 * 1000 + getPlayedOn(granted ?? {}, timestamp)
+}
+
+// The last `days` calendar days up to and including `now`, oldest first
+export const getRecentDays = (ledger: PlayTimeLedger, now: number, days: number = 7) => {
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(now)
+    const timestamp = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (days - 1 - i)).getTime()
+    return { date: getDateKey(timestamp), timestamp, playTime: getPlayedOn(ledger, timestamp) }
+  })
+}
+
+// Keeps enough history for the parent dashboard without growing forever
+const pruneLedger = (ledger: PlayTimeLedger, now: number): PlayTimeLedger => {
+  const date = new Date(now)
+  const cutoff = getDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - HISTORY_DAYS).getTime())
+  const keys = Object.keys(ledger)
+  if (keys.every(key => key >= cutoff)) return ledger
+
+  return Object.fromEntries(Object.entries(ledger).filter(([key]) => key >= cutoff))
+}
@@ -0,0 +1,63 @@
+// Registers the service worker generated at build time (see scripts/serviceWorkerPlugin.ts),
+// which keeps the app playable offline. A new version waits until a parent applies it,
+// so an update never reloads the app in the middle of a child's play.
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+class ServiceWorkerManager {
+  private registration: ServiceWorkerRegistration | null = null
+  private waitingWorker: ServiceWorker | null = null
+  private isApplyingUpdate = false
+  private listeners: Set<(updateAvailable: boolean) => void> = new Set()
+
+  register(url: string = SERVICE_WORKER_URL) {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register(url)
+      .then(registration => {
+        this.registration = registration
+        // Only an update waits behind a controlling worker; the first install starts right away
+        if (registration.waiting && navigator.serviceWorker.controller) this.setWaiting(registration.waiting)
+
+        registration.addEventListener('updatefound', () => {
+          const worker = registration.installing
+          worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) this.setWaiting(worker)
+          })
+        })
+      })
+      .catch(error => console.warn('Failed to register service worker:', error))
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (this.isApplyingUpdate) window.location.reload()
+    })
+  }
+
+  // Asks the server for a newer build, e.g. when a parent opens ParentMode
+  checkForUpdate() {
+    this.registration?.update().catch(error => console.warn('Failed to check for app update:', error))
+  }
+
+  isUpdateAvailable(): boolean {
+    return this.waitingWorker !== null
+  }
+
+  // Activates the waiting version; the page reloads once it has taken over
+  applyUpdate() {
+    if (!this.waitingWorker) return
+    this.isApplyingUpdate = true
+    this.waitingWorker.postMessage({ type: 'SKIP_WAITING' })
+  }
+
+  subscribe(listener: (updateAvailable: boolean) => void) {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  private setWaiting(worker: ServiceWorker) {
+    this.waitingWorker = worker
+    this.listeners.forEach(listener => listener(true))
+  }
+}
+
+export const serviceWorkerManager = new ServiceWorkerManager()
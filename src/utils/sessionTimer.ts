@@ -0,0 +1,178 @@
+// Single source of truth for the daily play-time countdown. UI components subscribe
+// to its events instead of running their own timers.
+import { useAppStore, getPlayedToday, getTodayBudget } from '../store/appStore'
+import { configManager } from '../config/appConfig'
+import { handleAudioInteraction } from '../components/AudioManager'
+import { getTimeUntilClose } from './playSchedule'
+
+export type SessionTimerPhase = 'idle' | 'running' | 'warning' | 'exit_dialog' | 'expired'
+
+export interface SessionTimerSnapshot {
+  phase: SessionTimerPhase
+  remaining: number // ms left of today's budget, or until the play window closes if sooner
+  reason: 'budget' | 'schedule' // which of the two limits `remaining` counts down to
+}
+
+export type SessionTimerEvent =
+  | { type: 'tick'; snapshot: SessionTimerSnapshot }
+  | { type: 'warning'; snapshot: SessionTimerSnapshot }
+  | { type: 'exit_dialog'; snapshot: SessionTimerSnapshot }
+  | { type: 'expired'; snapshot: SessionTimerSnapshot }
+
+const TICK_INTERVAL = 1000
+const PLAY_TIME_COMMIT_INTERVAL = 15 * 1000
+const EXIT_DIALOG_TIME = 60 * 1000 // the last minute offers to end or extend
+const PARENT_MODE_DELAY = 1000 // after the session ends, before handing over to the parent
+const IDLE_SNAPSHOT: SessionTimerSnapshot = { phase: 'idle', remaining: 0, reason: 'budget' }
+
+class SessionTimer {
+  private interval: ReturnType<typeof setInterval> | null = null
+  private lastCommit = 0
+  private goodnightTimeout: ReturnType<typeof setTimeout> | null = null
+  private endedEarly = false // set by endNow, so ticks don't bring back the time that is left
+  private snapshot: SessionTimerSnapshot = IDLE_SNAPSHOT
+  private listeners: Set<(event: SessionTimerEvent) => void> = new Set()
+
+  start() {
+    if (this.interval) return
+    this.lastCommit = Date.now()
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL)
+    this.tick()
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval)
+    this.clearGoodnightTimeout()
+    this.interval = null
+    this.setIdle()
+  }
+
+  getSnapshot(): SessionTimerSnapshot {
+    return { ...this.snapshot }
+  }
+
+  subscribe(listener: (event: SessionTimerEvent) => void) {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  // Grants the configured extension for today only; tomorrow starts from the daily limit again
+  extend() {
+    const { extendTime } = configManager.getConfig().timeManagement
+    useAppStore.getState().grantExtraTime(extendTime)
+    this.clearGoodnightTimeout()
+    this.tick()
+  }
+
+  // Ends the session early, with the same gentle goodbye as running out of time
+  endNow() {
+    if (this.snapshot.phase === 'idle' || this.snapshot.phase === 'expired') return
+    this.clearGoodnightTimeout()
+    this.endedEarly = true
+    this.setPhase('expired', this.snapshot.remaining, this.snapshot.reason)
+  }
+
+  // The child's goodnight action ends the wind-down and sends the world to bed. Only once
+  // the session is ending: a goodnight during the warning would forfeit the rest of the budget
+  sayGoodnight() {
+    if (this.snapshot.phase !== 'exit_dialog' && this.snapshot.phase !== 'expired') return
+    this.clearGoodnightTimeout()
+
+    useAppStore.getState().goToBed()
+    this.setIdle()
+  }
+
+  private tick() {
+    const state = useAppStore.getState()
+    if (!state.gameState.isPlaying) {
+      if (this.snapshot.phase !== 'expired' && this.snapshot.phase !== 'idle') this.setIdle()
+      return
+    }
+
+    // Write play time to the persisted ledger every so often, so reopening the app can't reset it
+    if (Date.now() - this.lastCommit >= PLAY_TIME_COMMIT_INTERVAL) {
+      state.commitPlayTime()
+      this.lastCommit = Date.now()
+    }
+    if (this.endedEarly) return
+
+    const { warningTime } = configManager.getConfig().timeManagement
+    const now = Date.now()
+    const budgetRemaining = Math.max(0, getTodayBudget(state, now) - getPlayedToday(state, now))
+    // Bedtime and quiet hours count down like the budget does, whichever comes first
+    const untilClose = getTimeUntilClose(state.settings.playSchedule, now)
+    const reason = untilClose < budgetRemaining ? 'schedule' : 'budget'
+    const remaining = Math.min(budgetRemaining, untilClose)
+
+    if (remaining <= 0) {
+      this.setPhase('expired', remaining, reason)
+    } else if (remaining <= EXIT_DIALOG_TIME) {
+      this.setPhase('exit_dialog', remaining, reason)
+    } else if (remaining <= warningTime * 60 * 1000) {
+      this.setPhase('warning', remaining, reason)
+    } else {
+      // A new day or an extension brings the budget back
+      this.setPhase('running', remaining, reason)
+    }
+  }
+
+  private setPhase(phase: SessionTimerPhase, remaining: number, reason: SessionTimerSnapshot['reason']) {
+    const previous = this.snapshot.phase
+    this.snapshot = { phase, remaining, reason }
+    this.notify({ type: 'tick', snapshot: this.getSnapshot() })
+
+    if (phase === previous || phase === 'running' || phase === 'idle') return
+    // Each phase fires once per session, so the warning is never spoken twice
+    this.notify({ type: phase, snapshot: this.getSnapshot() })
+
+    const { windDown } = configManager.getConfig().timeManagement
+    if (phase === 'warning') handleAudioInteraction(windDown.enabled ? 'wind_down' : 'time_warning')
+    if (phase === 'expired') {
+      if (!windDown.enabled) {
+        this.exitGracefully(reason)
+        return
+      }
+      // Wait for the child's goodnight, but don't keep the world awake forever
+      handleAudioInteraction('goodnight_prompt')
+      this.clearGoodnightTimeout()
+      this.goodnightTimeout = setTimeout(() => this.sayGoodnight(), windDown.goodnightTimeout)
+    }
+  }
+
+  private exitGracefully(reason: SessionTimerSnapshot['reason']) {
+    const { autoExitDelay } = configManager.getConfig().timeManagement
+    handleAudioInteraction('gentle_exit')
+
+    // Give a moment for the audio to play
+    setTimeout(() => {
+      useAppStore.getState().endSession()
+      // At bedtime the app falls asleep instead of handing over to the parent
+      if (reason === 'schedule') {
+        this.setIdle()
+        return
+      }
+      setTimeout(() => {
+        useAppStore.getState().updateSettings({ parentMode: true })
+        this.setIdle()
+      }, PARENT_MODE_DELAY)
+    }, autoExitDelay)
+  }
+
+  // Listeners hear about every reset, so no countdown is left showing a stale phase
+  private setIdle() {
+    this.endedEarly = false
+    this.snapshot = IDLE_SNAPSHOT
+    this.notify({ type: 'tick', snapshot: this.getSnapshot() })
+  }
+
+  private clearGoodnightTimeout() {
+    if (this.goodnightTimeout) clearTimeout(this.goodnightTimeout)
+    this.goodnightTimeout = null
+  }
+
+  private notify(event: SessionTimerEvent) {
+    this.listeners.forEach(listener => listener(event))
+  }
+}
+
+export const sessionTimer = new SessionTimer()